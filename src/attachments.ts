@@ -0,0 +1,127 @@
+/**
+ * Downloads Todoist comment attachments into the graph's assets folder.
+ */
+
+import type { LSPluginFileStorage } from "@logseq/libs/dist/modules/LSPlugin.Storage";
+
+import { ATTACHMENT_ASSET_FOLDER } from "./constants";
+import { logDebug, logError } from "./logger";
+import { readAttachmentIndex, writeAttachmentIndex } from "./storage";
+import { downloadAttachment, TodoistBackupTask, TodoistComment, TodoistFileAttachment } from "./todoist";
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/svg+xml": "svg",
+  "application/pdf": "pdf",
+  "audio/mpeg": "mp3",
+  "audio/mp4": "m4a",
+  "audio/ogg": "ogg",
+  "audio/wav": "wav",
+  "audio/webm": "webm",
+  "video/mp4": "mp4",
+  "text/plain": "txt",
+};
+
+/**
+ * Stores every comment attachment as a Logseq asset and sets `asset_path` on its comment.
+ * Files are named by content hash, so identical uploads share one asset, and URLs
+ * downloaded by earlier syncs are reused without fetching them again.
+ *
+ * @param tasks Tasks enriched with comments.
+ * @param token Todoist API token used to download uploaded files.
+ */
+export async function storeCommentAttachments(
+  tasks: TodoistBackupTask[],
+  token: string
+): Promise<TodoistBackupTask[]> {
+  // The sandbox storage accepts binary values even though its interface is typed as string
+  const storage = logseq.Assets.makeSandboxStorage() as LSPluginFileStorage;
+  const index = await readAttachmentIndex();
+  let downloaded = 0;
+
+  const storeAttachment = async (attachment: TodoistFileAttachment) => {
+    const url = attachment.file_url;
+    if (!url || !isUploadedFile(attachment)) {
+      return undefined;
+    }
+
+    const known = index.get(url);
+    if (known && (await storage.hasItem(known))) {
+      return known;
+    }
+
+    try {
+      const data = await downloadAttachment(token, url);
+      const key = `${ATTACHMENT_ASSET_FOLDER}/${await hashContent(data)}.${resolveExtension(attachment)}`;
+      if (!(await storage.hasItem(key))) {
+        await storage.setItem(key, new Uint8Array(data));
+        downloaded += 1;
+      }
+      index.set(url, key);
+      return key;
+    } catch (error) {
+      logError("failed to download comment attachment", { file: attachment.file_name, error });
+      return undefined;
+    }
+  };
+
+  const enriched: TodoistBackupTask[] = [];
+  for (const task of tasks) {
+    if (!task.comments?.some((comment) => comment.attachment)) {
+      enriched.push(task);
+      continue;
+    }
+
+    const comments: TodoistComment[] = [];
+    for (const comment of task.comments) {
+      const key = comment.attachment ? await storeAttachment(comment.attachment) : undefined;
+      comments.push(key ? { ...comment, asset_path: assetPath(key) } : comment);
+    }
+    enriched.push({ ...task, comments });
+  }
+
+  await writeAttachmentIndex(index);
+  logDebug("attachments_stored", { downloaded, indexed: index.size });
+  return enriched;
+}
+
+/**
+ * Builds the path used by page files to link a sandbox storage key.
+ *
+ * @param key Key inside the plugin's asset storage.
+ */
+function assetPath(key: string) {
+  return `../assets/storages/${logseq.baseInfo.id}/${key}`;
+}
+
+/**
+ * Reports whether the attachment is a file uploaded to Todoist rather than a shared link.
+ */
+function isUploadedFile(attachment: TodoistFileAttachment) {
+  const type = attachment.resource_type ?? "file";
+  return type === "file" || type === "image" || type === "audio" || type === "video";
+}
+
+/**
+ * Computes the hex SHA-256 digest of downloaded content.
+ */
+async function hashContent(data: ArrayBuffer) {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Picks a file extension from the attachment name, falling back to its MIME type.
+ */
+function resolveExtension(attachment: TodoistFileAttachment) {
+  const fromName = attachment.file_name?.match(/\.([A-Za-z0-9]{1,8})$/)?.[1];
+  if (fromName) {
+    return fromName.toLowerCase();
+  }
+  return MIME_EXTENSIONS[attachment.file_type ?? ""] ?? "bin";
+}
@@ -1,50 +1,227 @@
-import type { BlockEntity, BlockUUIDTuple, IBatchBlock } from "@logseq/libs/dist/LSPlugin";
+import type { BlockEntity, BlockUUIDTuple, IBatchBlock, PageEntity } from "@logseq/libs/dist/LSPlugin";
 
 import {
   BACKLOG_PAGE_SUFFIX,
+  COMMENT_TEMPLATE_FIELDS,
+  DEFAULT_JOURNAL_TITLE_FORMAT,
+  ISO_DATE_PATTERN,
+  JOURNAL_SECTION_TITLE,
+  PAGE_LAYOUTS,
   PLACEHOLDER_CONTENT,
+  SINGLE_PAGE_SUFFIX,
+  TASK_TEMPLATE_FIELDS,
+  TODOIST_ACCOUNT_PROPERTY,
   TODOIST_COMMENT_ID_PROPERTY,
   TODOIST_COMMENTS_PROPERTY,
   TODOIST_COMMENT_POSTED_PROPERTY,
   TODOIST_COMPLETED_PROPERTY,
+  TODOIST_CREATED_PROPERTY,
+  TODOIST_DEADLINE_PROPERTY,
+  TODOIST_DELETED_PROPERTY,
+  TODOIST_DESCRIPTION_PROPERTY,
   TODOIST_DUE_PROPERTY,
+  TODOIST_DURATION_PROPERTY,
   TODOIST_ID_PROPERTY,
+  TODOIST_GROUP_PROPERTY,
+  TODOIST_JOURNAL_PROPERTY,
+  TODOIST_PARENT_PROPERTY,
+  TODOIST_OCCURRENCE_PROPERTY,
+  TODOIST_PRIORITY_PROPERTY,
+  TODOIST_PROJECT_CHILDREN_PROPERTY,
+  TODOIST_PROJECT_RENAMED_PROPERTY,
+  TODOIST_PROJECT_ID_PROPERTY,
+  PROJECT_PAGE_SEGMENT,
+  TODOIST_RECURRENCE_PROPERTY,
+  TODOIST_RECURRING_TASK_PROPERTY,
+  TODOIST_SECTION_PROPERTY,
   TODOIST_STATUS_PROPERTY,
 } from "./constants";
+import { blocksToMarkdown, markdownToBlocks } from "./markdown";
+import {
+  BlockTemplate,
+  compileTemplate,
+  hasUnconditionalProperty,
+  renderTemplate,
+  TemplateError,
+  TemplateValues,
+} from "./template";
 import {
   formatDue,
   formatLabelTag,
   safeLinkText,
   safeText,
-  dueTimestamp,
   convertInlineTodoistLabels,
+  extractLogseqTags,
+  parseProjectReference,
   TodoistBackupTask,
   TodoistComment,
+  TodoistDeadline,
+  TodoistDue,
+  TodoistProject,
+  TodoistProjectComment,
+  TodoistDuration,
 } from "./todoist";
 
 type CommentWrapperBlock = IBatchBlock;
 
+type CommentFields = Omit<TodoistComment, "task_id">;
+
+const PROJECT_PAGE_PATTERN = new RegExp(`^.*/${PROJECT_PAGE_SEGMENT}/`);
+// Todoist id appended to the page title of a project that shares its name with another
+const PROJECT_PAGE_ID_SUFFIX = / \((?=[0-9A-Za-z]*\d)[0-9A-Za-z]{9,}\)$/;
+
+const MONTH_NAMES = [
+  "January",
+  "February",
+  "March",
+  "April",
+  "May",
+  "June",
+  "July",
+  "August",
+  "September",
+  "October",
+  "November",
+  "December",
+];
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const REPEATER_UNITS: Record<string, string> = { hour: "h", day: "d", week: "w", month: "m", year: "y" };
+
+const REPEATER_SHORTHANDS: Record<string, string> = { daily: "d", weekly: "w", monthly: "m", yearly: "y" };
+
+const OPEN_MARKER_PATTERN = /^(?:TODO|DOING|LATER|NOW|WAITING|WAIT)\s+/;
+
 type TaskWithBlock = {
   task: TodoistBackupTask;
   block: IBatchBlock;
+  description: IBatchBlock[];
+};
+
+type TaskGroup = {
+  key: string;
+  name: string;
+};
+
+type TaskNode = TaskWithBlock & {
+  subtasks: TaskNode[];
+};
+
+export type PageLayout = (typeof PAGE_LAYOUTS)[number];
+
+/**
+ * Page layout plus the journal title format used by the journal layout.
+ */
+type PageRouting = {
+  layout: PageLayout;
+  journalTitleFormat?: string;
+};
+
+/**
+ * The part of a page that holds task blocks: the whole page under the prefix, or
+ * the managed Todoist section on a journal page.
+ */
+type TaskArea = {
+  page: PageEntity;
+  section?: BlockEntity;
+  /**
+   * Top-level blocks of the area with their children.
+   */
+  blocks: Array<BlockEntity | BlockUUIDTuple>;
+};
+
+type TaskRoute = {
+  /**
+   * Completion date of completed tasks, due date otherwise (`YYYY-MM-DD`).
+   */
+  date?: string;
+  projectName: string;
+  sectionName?: string;
+};
+
+type RelocatedBlock = {
+  block: BlockEntity;
+  pageName: string;
+};
+
+/**
+ * Blocks moved to another page by a layout migration, with their destination page.
+ * A dry run only records the moves, so later page reads are adjusted with this.
+ */
+type RelocatedBlocks = {
+  /**
+   * Task blocks keyed by Todoist id.
+   */
+  tasks: Map<string, RelocatedBlock>;
+  /**
+   * Occurrence blocks keyed by `todoist-occurrence::`.
+   */
+  occurrences: Map<string, RelocatedBlock>;
+};
+
+type PageWriteOptions = {
+  pagePrefix: string;
+  account?: string;
+  retireUnseen: boolean;
+  retirement: RetirementContext;
+  grouping?: BlockRenderContext;
+  adoptedBlocks: Map<string, string>;
+  stats: WriteStats;
+  dryRun: boolean;
+  pageByTaskId: Map<string, string>;
+  relocated: RelocatedBlocks;
+};
+
+type OccurrenceWriteOptions = Pick<PageWriteOptions, "stats" | "dryRun" | "pageByTaskId" | "relocated"> & {
+  routing: PageRouting;
+};
+
+type PageWriteContext = PageWriteOptions & {
+  area: TaskArea;
+  pageName: string;
+  blockMap: Map<string, BlockEntity>;
+  seenIds: Set<string>;
+  groupMap: Map<string, BlockEntity>;
+  firstTopLevelUuid?: string;
+  lastTopLevelUuid?: string;
 };
 
 /**
- * Determines the destination page name for a task based on its date.
- * Uses due date for active tasks, completion date for completed tasks,
- * or Backlog for tasks without dates.
+ * Determines the destination page name for a task under the page layout.
+ * Date-based layouts use the completion date for completed tasks and the due date
+ * for active ones, falling back to Backlog; project layouts use the project page.
  *
  * @param task Todoist task to determine page for.
  * @param pagePrefix Base page name prefix from settings (e.g., "todoist").
+ * @param routing Page layout from settings; defaults to one page per date.
+ * @param render Project and section lookups, needed by the project layouts.
+ */
+export function resolveTaskPageName(
+  task: TodoistBackupTask,
+  pagePrefix: string,
+  routing: PageRouting = { layout: "date" },
+  render?: Pick<BlockRenderContext, "projectMap" | "projectPageTitles" | "sectionMap">
+): string {
+  const route: TaskRoute = {
+    date: resolveTaskDate(task),
+    projectName: render ? resolveProjectPageTitle(render, task.project_id) : "Inbox",
+    sectionName: render ? resolveSectionName(task, render.sectionMap) || undefined : undefined,
+  };
+  return routePageName(route, pagePrefix, routing);
+}
+
+/**
+ * Picks the date a task is filed under: completion date, due date, or the last known due date.
  */
-export function resolveTaskPageName(task: TodoistBackupTask, pagePrefix: string): string {
+function resolveTaskDate(task: TodoistBackupTask) {
   // For completed tasks, use completion date
   if (task.completed) {
     const completedDate = task.completed_date ?? task.completed_at;
     if (completedDate) {
       const normalized = formatCompletedDate(completedDate);
       if (normalized) {
-        return `${pagePrefix}/${normalized}`;
+        return normalized;
       }
     }
   }
@@ -52,282 +229,1770 @@ export function resolveTaskPageName(task: TodoistBackupTask, pagePrefix: string)
   // For active tasks, use due date
   const dueFormatted = formatDue(task.due);
   if (dueFormatted) {
-    return `${pagePrefix}/${dueFormatted}`;
+    return dueFormatted;
   }
 
   // Fallback to any existing due date
-  const fallback = task.fallbackDue;
-  if (fallback) {
-    const sanitized = safeText(fallback);
-    if (sanitized && /^\d{4}-\d{2}-\d{2}$/.test(sanitized)) {
-      return `${pagePrefix}/${sanitized}`;
+  const fallback = safeText(task.fallbackDue ?? "");
+  return ISO_DATE_PATTERN.test(fallback) ? fallback : undefined;
+}
+
+/**
+ * Maps a task's date, project, and section to its page under the given layout.
+ *
+ * @param route Date, project, and section of the task.
+ * @param pagePrefix Base page name prefix.
+ * @param routing Page layout and journal title format.
+ */
+function routePageName(route: TaskRoute, pagePrefix: string, routing: PageRouting) {
+  const { layout } = routing;
+  switch (layout) {
+    case "single":
+      return `${pagePrefix}/${SINGLE_PAGE_SUFFIX}`;
+    case "project":
+      return resolveProjectPageName(pagePrefix, route.projectName);
+    case "project-section": {
+      const projectPage = resolveProjectPageName(pagePrefix, route.projectName);
+      const section = safeText(route.sectionName ?? "").replace(/\//g, "-");
+      return section ? `${projectPage}/${section}` : projectPage;
+    }
+    default: {
+      if (!route.date) {
+        return `${pagePrefix}/${BACKLOG_PAGE_SUFFIX}`;
+      }
+      if (layout === "journal") {
+        return formatJournalTitle(route.date, routing.journalTitleFormat ?? DEFAULT_JOURNAL_TITLE_FORMAT);
+      }
+      if (layout === "week") {
+        return `${pagePrefix}/${formatIsoWeek(route.date)}`;
+      }
+      return `${pagePrefix}/${layout === "month" ? route.date.slice(0, 7) : route.date}`;
     }
   }
+}
+
+/**
+ * Formats a `YYYY-MM-DD` date as its ISO week, e.g. `2025-W07`.
+ * Weeks start on Monday and belong to the year of their Thursday.
+ */
+function formatIsoWeek(date: string) {
+  const [year, month, day] = date.split("-").map(Number);
+  const thursday = new Date(Date.UTC(year, month - 1, day));
+  thursday.setUTCDate(thursday.getUTCDate() + 4 - (thursday.getUTCDay() || 7));
+  const weekYear = thursday.getUTCFullYear();
+  const week = Math.ceil(((thursday.getTime() - Date.UTC(weekYear, 0, 1)) / 86400000 + 1) / 7);
+  return `${weekYear}-W${String(week).padStart(2, "0")}`;
+}
+
+/**
+ * Formats a `YYYY-MM-DD` date as a journal page title using Logseq's date format tokens
+ * (`yyyy`, `yy`, `MMMM`, `MMM`, `MM`, `M`, `do`, `dd`, `d`, `EEEE`, `EEE`, `E`).
+ * Text in single quotes and other characters are copied as they are.
+ *
+ * @param date Day to format.
+ * @param format Journal title format from the Logseq config (`:journal/page-title-format`).
+ */
+function formatJournalTitle(date: string, format: string) {
+  const [year, month, day] = date.split("-").map(Number);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  const monthName = MONTH_NAMES[month - 1];
+  const dayName = DAY_NAMES[weekday];
+  const ordinal = (value: number) => {
+    const suffixes = ["th", "st", "nd", "rd"];
+    const remainder = value % 100;
+    return `${value}${suffixes[(remainder - 20) % 10] ?? suffixes[remainder] ?? suffixes[0]}`;
+  };
+  const tokens: Record<string, string> = {
+    yyyy: String(year),
+    yy: String(year).slice(-2),
+    MMMM: monthName,
+    MMM: monthName.slice(0, 3),
+    MM: String(month).padStart(2, "0"),
+    M: String(month),
+    do: ordinal(day),
+    dd: String(day).padStart(2, "0"),
+    d: String(day),
+    EEEE: dayName,
+    EEE: dayName.slice(0, 3),
+    EE: dayName.slice(0, 3),
+    E: dayName.slice(0, 3),
+  };
+  return format.replace(/'([^']*)'|yyyy|yy|MMMM|MMM|MM|M|do|dd|d|EEEE|EEE|EE|E/g, (token, quoted?: string) =>
+    quoted !== undefined ? quoted : tokens[token]
+  );
+}
 
-  // No date found, use Backlog
-  return `${pagePrefix}/${BACKLOG_PAGE_SUFFIX}`;
+/**
+ * Reads the route of a backed-up block from its own properties, for blocks the
+ * current sync does not carry.
+ *
+ * @param content Task or occurrence block content.
+ */
+function resolveBlockRoute(content: string): TaskRoute {
+  const readProperty = (name: string) =>
+    content.match(new RegExp(`^${name}::\\s*(.+)$`, "mi"))?.[1]?.trim() ?? "";
+  const dateSource = hasCompletedProperty(content)
+    ? readProperty(TODOIST_COMPLETED_PROPERTY)
+    : extractTodoistDue(content) ?? "";
+  return {
+    date: dateSource.match(/\d{4}-\d{2}-\d{2}/)?.[0],
+    projectName: parseProjectReference(readProperty("todoist-project")).replace(PROJECT_PAGE_PATTERN, "") || "Inbox",
+    sectionName: readProperty(TODOIST_SECTION_PROPERTY) || undefined,
+  };
 }
 
+/**
+ * Marker of open tasks, following the graph's workflow setting.
+ */
+export type OpenTaskMarker = "TODO" | "LATER";
+
 export type StatusAliases = {
   active: string;
   completed: string;
   deleted: string;
 };
 
+export type BlockRenderContext = {
+  projectMap: Map<string, string>;
+  labelMap: Map<string, string>;
+  sectionMap: Map<string, string>;
+  statusAliases: StatusAliases;
+  /**
+   * Prefixes titles with Logseq `[#A]`-`[#C]` markers derived from Todoist priority.
+   */
+  priorityMarkers?: boolean;
+  /**
+   * Writes descriptions as a child block tree instead of the `todoist-desc::` property.
+   */
+  descriptionBlocks?: boolean;
+  /**
+   * Links `todoist-project::` to the project page under this prefix instead of a `#tag`.
+   */
+  projectPagePrefix?: string;
+  /**
+   * Project page titles keyed by project id, from `buildProjectPageTitles()`; projects
+   * missing here link to the page of their name.
+   */
+  projectPageTitles?: Map<string, string>;
+  /**
+   * Prefixes blocks with Logseq task markers and adds `SCHEDULED:`/`DEADLINE:` lines.
+   */
+  taskMarkers?: boolean;
+  /**
+   * Marker of open tasks; defaults to `TODO`.
+   */
+  openMarker?: OpenTaskMarker;
+  /**
+   * Name of the Todoist account the tasks belong to, tagged on every block it writes.
+   * Blocks of the default account stay untagged.
+   */
+  account?: string;
+  /**
+   * User template replacing the built-in task block layout.
+   */
+  taskTemplate?: BlockTemplate;
+  /**
+   * User template replacing the built-in layout of task comment blocks.
+   */
+  commentTemplate?: BlockTemplate;
+};
+
+export type WriteBlocksOptions = {
+  /**
+   * When true, `tasks` only holds tasks changed since the last sync, so blocks
+   * absent from the list are kept unless listed in `deletedTaskIds`.
+   */
+  incremental?: boolean;
+  deletedTaskIds?: Iterable<string>;
+  /**
+   * Days after which blocks marked as deleted are removed; `0` keeps them forever.
+   */
+  purgeDeletedAfterDays?: number;
+  /**
+   * Nests each page's tasks under project and section header blocks.
+   */
+  groupBySection?: boolean;
+  /**
+   * Blocks outside the backup pages that tasks were created from, keyed by Todoist id.
+   * They are updated in place instead of getting a duplicate on the task's page.
+   */
+  adoptedBlocks?: Map<string, string>;
+  /**
+   * Archived projects. Their tasks are missing from the active task list, so blocks
+   * linked to them are kept as they are instead of being marked deleted.
+   */
+  archivedProjectIds?: Iterable<string>;
+  /**
+   * Tasks left out by the title exclusion patterns. They still exist in Todoist, so their
+   * existing blocks are left as they are instead of being marked deleted.
+   */
+  excludedTaskIds?: Iterable<string>;
+  /**
+   * Past completions of recurring tasks, each written once to the page of its completion date.
+   */
+  occurrences?: TodoistBackupTask[];
+  /**
+   * Records every change in the returned stats without touching the graph.
+   */
+  dryRun?: boolean;
+  /**
+   * How tasks are split into pages; defaults to one page per date.
+   */
+  pageLayout?: PageLayout;
+  /**
+   * Title format of journal pages, used by the journal layout; defaults to Logseq's default.
+   */
+  journalTitleFormat?: string;
+  /**
+   * The layout changed since the pages were written: existing task and occurrence
+   * blocks are first moved to the pages of the new layout.
+   */
+  migrateLayout?: boolean;
+};
+
+/**
+ * A task reconstructed from its block on a backup page.
+ */
+export type BackupTaskRecord = {
+  id: string;
+  uuid: string;
+  pageName: string;
+  title: string;
+  projectName?: string;
+  labels: string[];
+  due?: string;
+  recurrence?: string;
+  priority?: number;
+  description: string;
+  comments: string[];
+  completed: boolean;
+  deleted: boolean;
+  /**
+   * Account tagged on the block; undefined for the default account.
+   */
+  account?: string;
+};
+
+/**
+ * Changes made by one `writeBlocks()` call, reported in the sync log and the sync preview.
+ */
+export type WriteStats = {
+  created: number;
+  updated: number;
+  /**
+   * Blocks newly marked as deleted.
+   */
+  retired: number;
+  /**
+   * Deleted blocks removed after the retention window.
+   */
+  purged: number;
+  /**
+   * Stale copies removed because their task moved to another page.
+   */
+  moved: number;
+  pages: Set<string>;
+  /**
+   * Every change in the order it was made.
+   */
+  changes: WriteChangeRecord[];
+};
+
+export type WriteChange = Exclude<keyof WriteStats, "pages" | "changes">;
+
+/**
+ * One task block created, updated, or removed by `writeBlocks()`.
+ */
+export type WriteChangeRecord = {
+  pageName: string;
+  change: WriteChange;
+  todoistId?: string;
+  /**
+   * First line of the block content.
+   */
+  title: string;
+};
+
+type RetirementContext = {
+  statusAliases: StatusAliases;
+  deletedOn: string;
+  purgeBefore?: string;
+  archivedProjects: Set<string>;
+  excludedIds: Set<string>;
+};
+
 /**
  * Groups tasks by date and writes them to separate journal-style pages.
+ * Subtasks are nested under their parent when both land on the same page;
+ * otherwise they stay top-level and reference the parent via `todoist-parent::`.
  *
  * @param pagePrefix Base page name prefix from settings (e.g., "todoist").
  * @param tasks Tasks with their corresponding block data.
- * @param projectMap Mapping of project ids to names.
- * @param labelMap Mapping of label ids or names to normalized names.
- * @param statusAliases Custom aliases for task status values.
+ * @param render Project, label, and section lookups plus status aliases.
+ * @param options Incremental write and layout settings; defaults to a flat full rewrite.
  */
 export async function writeBlocks(
   pagePrefix: string,
   tasks: TodoistBackupTask[],
-  projectMap: Map<string, string>,
-  labelMap: Map<string, string>,
-  statusAliases: StatusAliases
-) {
+  render: BlockRenderContext,
+  options: WriteBlocksOptions = {}
+): Promise<WriteStats> {
+  const stats: WriteStats = {
+    created: 0,
+    updated: 0,
+    retired: 0,
+    purged: 0,
+    moved: 0,
+    pages: new Set(),
+    changes: [],
+  };
+  const dryRun = Boolean(options.dryRun);
+  const incremental = Boolean(options.incremental);
+  const retirement = buildRetirementContext(render.statusAliases, options.purgeDeletedAfterDays);
+  for (const taskId of options.excludedTaskIds ?? []) {
+    retirement.excludedIds.add(String(taskId));
+  }
+  for (const projectId of options.archivedProjectIds ?? []) {
+    const projectName = render.projectMap.get(String(projectId));
+    if (projectName) {
+      retirement.archivedProjects.add(projectMatchKey(projectName));
+      retirement.archivedProjects.add(projectMatchKey(resolveProjectPageTitle(render, projectId)));
+    }
+  }
+  const grouping = options.groupBySection ? render : undefined;
+  const routing: PageRouting = {
+    layout: options.pageLayout ?? "date",
+    journalTitleFormat: options.journalTitleFormat,
+  };
+  const pageByTaskId = new Map<string, string>();
+  for (const task of tasks) {
+    pageByTaskId.set(String(task.id), resolveTaskPageName(task, pagePrefix, routing, render));
+  }
+
+  const relocated = options.migrateLayout
+    ? await relocateTaskBlocks(pagePrefix, routing, render.account, pageByTaskId, stats, dryRun)
+    : { tasks: new Map(), occurrences: new Map() };
+
   // Group tasks by their destination page
   const tasksByPage = new Map<string, TaskWithBlock[]>();
 
   for (const task of tasks) {
-    const pageName = resolveTaskPageName(task, pagePrefix);
+    const pageName = pageByTaskId.get(String(task.id))!;
+    const parentReference = resolveParentReference(task, pageName, pageByTaskId);
     const block: IBatchBlock = {
-      content: blockContent(task, projectMap, labelMap, statusAliases),
-      children: buildCommentBlocks(task),
+      content: blockContent(task, render, parentReference),
+      children: buildCommentBlocks(task, render),
     };
 
     if (!tasksByPage.has(pageName)) {
       tasksByPage.set(pageName, []);
     }
-    tasksByPage.get(pageName)!.push({ task, block });
+    tasksByPage.get(pageName)!.push({ task, block, description: buildDescriptionBlocks(task, render) });
   }
 
   // Write blocks to each page
   for (const [pageName, tasksWithBlocks] of tasksByPage.entries()) {
-    const blocks = tasksWithBlocks.map((t) => t.block);
-    await writeBlocksToPage(pageName, blocks);
+    await writeBlocksToPage(pageName, buildTaskTree(tasksWithBlocks), {
+      pagePrefix,
+      account: render.account,
+      retireUnseen: !incremental,
+      retirement,
+      grouping,
+      adoptedBlocks: options.adoptedBlocks ?? new Map<string, string>(),
+      stats,
+      dryRun,
+      pageByTaskId,
+      relocated,
+    });
   }
 
+  await writeOccurrences(pagePrefix, options.occurrences ?? [], render, {
+    routing,
+    pageByTaskId,
+    stats,
+    dryRun,
+    relocated,
+  });
+
   // Clean up empty pages that may have had tasks moved
-  await cleanupObsoletePages(pagePrefix, tasksByPage);
+  await cleanupObsoletePages(
+    pagePrefix,
+    render.account,
+    tasksByPage,
+    incremental,
+    new Set(options.deletedTaskIds ?? []),
+    retirement,
+    stats,
+    dryRun,
+    relocated
+  );
+  return stats;
 }
 
 /**
- * Writes blocks to a specific Logseq page, updating or creating blocks as needed.
+ * Counts one block change on a page.
  *
- * @param pageName Destination page for the blocks.
- * @param blocks Collection of blocks to write.
+ * @param stats Statistics of the current write.
+ * @param pageName Page the change happened on.
+ * @param change Kind of change.
+ * @param content Block content written, or the content of the block being removed.
+ */
+function recordChange(stats: WriteStats, pageName: string, change: WriteChange | undefined, content: string) {
+  if (change) {
+    stats[change] += 1;
+    stats.pages.add(pageName);
+    stats.changes.push({
+      pageName,
+      change,
+      todoistId: extractTodoistId(content),
+      title: content.split("\n")[0].trim(),
+    });
+  }
+}
+
+/**
+ * Prepares the dates used to mark vanished tasks as deleted and to purge old ones.
+ *
+ * @param statusAliases Custom aliases for task status values.
+ * @param purgeDeletedAfterDays Retention for deleted entries; `0` or less disables purging.
+ */
+function buildRetirementContext(statusAliases: StatusAliases, purgeDeletedAfterDays = 0): RetirementContext {
+  const now = new Date();
+  const days = Math.floor(Number(purgeDeletedAfterDays) || 0);
+  let purgeBefore: string | undefined;
+  if (days > 0) {
+    const threshold = new Date(now.getFullYear(), now.getMonth(), now.getDate() - days);
+    purgeBefore = formatLocalDate(threshold);
+  }
+  return {
+    statusAliases,
+    deletedOn: formatLocalDate(now),
+    purgeBefore,
+    archivedProjects: new Set(),
+    excludedIds: new Set(),
+  };
+}
+
+/**
+ * Returns the page with the given name, creating it first when missing.
+ *
+ * @param pageName Full page name.
  */
-async function writeBlocksToPage(pageName: string, blocks: IBatchBlock[]) {
+async function ensurePage(pageName: string): Promise<PageEntity> {
   let page = await logseq.Editor.getPage(pageName);
   if (!page) {
     await logseq.Editor.createPage(pageName, {}, { createFirstBlock: true, redirect: false });
     page = await logseq.Editor.getPage(pageName);
   }
-
   if (!page) {
     throw new Error(`Failed to create or retrieve page "${pageName}".`);
   }
+  return page;
+}
 
-  const existingBlocks = await logseq.Editor.getPageBlocksTree(page.uuid);
-  const blockMap = buildBlockMap(existingBlocks ?? []);
-
-  const seenIds = new Set<string>();
-  for (const block of blocks) {
-    const todoistId = extractTodoistId(block.content);
-    if (!todoistId) continue;
-
-    let formatted = block.content;
-    const existing = blockMap.get(todoistId);
-    let targetUuid: string | undefined;
-    if (existing) {
-      const existingDue = extractTodoistDue(existing.content ?? "");
-      if (existingDue && !hasDueProperty(formatted)) {
-        formatted = applyDueFallback(formatted, existingDue);
-      }
+/**
+ * Checks whether a page name lies under the prefix. Any other page the layout routes
+ * tasks to is a journal page, where only the managed Todoist section is touched.
+ *
+ * @param pageName Full page name.
+ * @param pagePrefix Base page name prefix.
+ */
+function isPrefixedPageName(pageName: string, pagePrefix: string) {
+  return pageName.startsWith(`${pagePrefix}/`);
+}
 
-      await logseq.Editor.updateBlock(existing.uuid, formatted);
-      targetUuid = existing.uuid;
-    } else {
-      const created = await logseq.Editor.appendBlockInPage(page.uuid, formatted);
-      if (created) {
-        blockMap.set(todoistId, created);
-        targetUuid = created.uuid;
-      }
-    }
+/**
+ * Reads the task area of an existing page; journal pages without a Todoist section
+ * have an empty area.
+ *
+ * @param page Page under the prefix or journal page.
+ * @param pagePrefix Base page name prefix.
+ */
+async function readTaskArea(page: PageEntity, pagePrefix: string): Promise<TaskArea> {
+  const tree = (await logseq.Editor.getPageBlocksTree(page.uuid)) ?? [];
+  if (isPrefixedPageName(page.originalName ?? page.name, pagePrefix)) {
+    return { page, blocks: tree };
+  }
+  const section = tree.filter(isBlockEntity).find((block) => isJournalSection(block.content ?? "", pagePrefix));
+  return { page, section, blocks: section?.children ?? [] };
+}
 
-    seenIds.add(todoistId);
+/**
+ * Reads the task area of a page without creating anything.
+ *
+ * @param pageName Full page name.
+ * @param pagePrefix Base page name prefix.
+ * @returns The area, or undefined when the page does not exist.
+ */
+async function findTaskArea(pageName: string, pagePrefix: string) {
+  const page = await logseq.Editor.getPage(pageName);
+  return page ? readTaskArea(page, pagePrefix) : undefined;
+}
 
-    if (targetUuid) {
-      const children = block.children ?? [];
-      await syncComments(targetUuid, children);
-    }
+/**
+ * Returns the task area of a page, creating the page and, on journal pages, the
+ * Todoist section block when missing. The section is appended after the journal's
+ * own blocks, or replaces the empty first block of a journal created here.
+ *
+ * @param pageName Full page name.
+ * @param pagePrefix Base page name prefix.
+ */
+async function openTaskArea(pageName: string, pagePrefix: string): Promise<TaskArea> {
+  if (isPrefixedPageName(pageName, pagePrefix)) {
+    return readTaskArea(await ensurePage(pageName), pagePrefix);
   }
 
-  const obsoleteBlocks = [...blockMap.entries()].filter(([id]) => !seenIds.has(id));
-  for (const [, entity] of obsoleteBlocks) {
-    const content = entity.content ?? "";
-    const status = extractTodoistStatus(content);
-    if (status === "completed") {
-      continue;
-    }
-    if (!status && hasCompletedProperty(content)) {
-      continue;
-    }
-    await logseq.Editor.removeBlock(entity.uuid);
+  const existing = await logseq.Editor.getPage(pageName);
+  if (!existing) {
+    await logseq.Editor.createPage(pageName, {}, { createFirstBlock: true, redirect: false, journal: true });
+  }
+  const page = existing ?? (await ensurePage(pageName));
+  const area = await readTaskArea(page, pagePrefix);
+  if (area.section) {
+    return area;
   }
 
-  if (blocks.length === 0 && blockMap.size === 0) {
-    await logseq.Editor.appendBlockInPage(page.uuid, PLACEHOLDER_CONTENT);
+  const content = journalSectionContent(pagePrefix);
+  const tree = ((await logseq.Editor.getPageBlocksTree(page.uuid)) ?? []).filter(isBlockEntity);
+  let section: BlockEntity | null | undefined;
+  if (!existing && tree.length === 1 && !(tree[0].content ?? "").trim()) {
+    await logseq.Editor.updateBlock(tree[0].uuid, content);
+    section = await logseq.Editor.getBlock(tree[0].uuid);
+  } else {
+    section = await logseq.Editor.appendBlockInPage(page.uuid, content);
+  }
+  if (!section) {
+    throw new Error(`Failed to add the Todoist section to "${pageName}".`);
   }
+  return { page, section, blocks: [] };
 }
 
 /**
- * Removes tasks from old pages when they've been moved to different dates.
- * Searches for Todoist tasks in pages matching the prefix pattern.
+ * Appends a top-level block to a task area.
+ *
+ * @param area Page or journal section receiving the block.
+ * @param content Block content.
+ */
+async function appendAreaBlock(area: TaskArea, content: string) {
+  return area.section
+    ? logseq.Editor.insertBlock(area.section.uuid, content, { sibling: false })
+    : logseq.Editor.appendBlockInPage(area.page.uuid, content);
+}
+
+/**
+ * Builds the managed section block of a journal page; its property links the
+ * prefix page so the sections can be found through its references.
  *
  * @param pagePrefix Base page name prefix.
- * @param currentTasksByPage Map of current page names to their tasks.
  */
-async function cleanupObsoletePages(
-  pagePrefix: string,
-  currentTasksByPage: Map<string, TaskWithBlock[]>
-) {
-  // Collect all current task IDs
-  const currentTaskIds = new Set<string>();
-  for (const tasksWithBlocks of currentTasksByPage.values()) {
-    for (const { task } of tasksWithBlocks) {
-      currentTaskIds.add(String(task.id));
-    }
-  }
+function journalSectionContent(pagePrefix: string) {
+  return `${JOURNAL_SECTION_TITLE}\n${TODOIST_JOURNAL_PROPERTY}:: [[${pagePrefix}]]`;
+}
 
-  // Search for pages with the prefix pattern
-  const allPages = await logseq.Editor.getAllPages();
-  if (!allPages) {
-    return;
-  }
+/**
+ * Checks whether a block is the managed Todoist section of a journal page for the
+ * prefix; accounts with other prefixes keep their own sections on the same page.
+ */
+function isJournalSection(content: string, pagePrefix: string) {
+  return content
+    .split("\n")
+    .some((line) => line.trim().toLowerCase() === `${TODOIST_JOURNAL_PROPERTY}:: [[${pagePrefix.toLowerCase()}]]`);
+}
 
-  for (const page of allPages) {
-    const pageName = page.originalName ?? page.name;
-    if (!pageName.startsWith(`${pagePrefix}/`)) {
-      continue;
-    }
+/**
+ * Lists the pages holding task blocks: every page under the prefix plus the journal
+ * pages whose Todoist section links the prefix page.
+ *
+ * @param pagePrefix Base page name prefix.
+ */
+async function listTaskPages(pagePrefix: string) {
+  const allPages = (await logseq.Editor.getAllPages()) ?? [];
+  const prefixed = allPages.filter((page) => isPrefixedPageName(page.originalName ?? page.name, pagePrefix));
+  const references = (await logseq.Editor.getPageLinkedReferences(pagePrefix)) ?? [];
+  const journals = references.map(([page]) => page).filter((page) => page["journal?"]);
+  return [...prefixed, ...journals];
+}
 
-    // Skip pages that are in current sync
-    if (currentTasksByPage.has(pageName)) {
-      continue;
-    }
+/**
+ * Appends one completed entry per past occurrence of a recurring task to the page its
+ * completion is filed under. Entries are keyed by `todoist-occurrence::` and never rewritten,
+ * so the occurrence history survives while the recurring task block keeps moving forward.
+ *
+ * @param pagePrefix Base page name prefix from settings.
+ * @param occurrences Completed occurrences of recurring tasks.
+ * @param render Project lookups, status aliases, and project page prefix.
+ * @param options Page layout, task destinations, and the state of the current write.
+ */
+async function writeOccurrences(
+  pagePrefix: string,
+  occurrences: TodoistBackupTask[],
+  render: BlockRenderContext,
+  options: OccurrenceWriteOptions
+) {
+  const { routing, pageByTaskId, stats, dryRun, relocated } = options;
+  const byPage = new Map<string, TodoistBackupTask[]>();
+  for (const occurrence of occurrences) {
+    const pageName = resolveTaskPageName({ ...occurrence, completed: true }, pagePrefix, routing, render);
+    byPage.set(pageName, [...(byPage.get(pageName) ?? []), occurrence]);
+  }
 
-    // Check blocks on this page
-    const existingBlocks = await logseq.Editor.getPageBlocksTree(page.uuid);
-    if (!existingBlocks || existingBlocks.length === 0) {
-      continue;
+  for (const [pageName, entries] of byPage.entries()) {
+    const area = dryRun ? await findTaskArea(pageName, pagePrefix) : await openTaskArea(pageName, pagePrefix);
+    const tree = (area?.blocks ?? []).filter(isBlockEntity);
+    const written = collectOccurrenceKeys(tree);
+    for (const [key, move] of relocated.occurrences.entries()) {
+      if (dryRun && move.pageName === pageName) {
+        written.add(key);
+      }
     }
-
-    const blockMap = buildBlockMap(existingBlocks);
-    for (const [todoistId, entity] of blockMap.entries()) {
-      // Remove if task no longer exists in current sync
-      if (!currentTaskIds.has(todoistId)) {
-        const content = entity.content ?? "";
-        const status = extractTodoistStatus(content);
-        if (status === "completed") {
-          continue;
+    const missing = entries
+      .filter((entry) => !written.has(occurrenceKey(entry)))
+      .sort((a, b) => (a.completed_at ?? "").localeCompare(b.completed_at ?? ""));
+
+    // A freshly created page only holds an empty block, which the first entry reuses
+    let emptyUuid = tree.length === 1 && !(tree[0].content ?? "").trim() ? tree[0].uuid : undefined;
+    for (const entry of missing) {
+      const content = occurrenceContent(entry, render, pageByTaskId.get(String(entry.id)));
+      if (area && !dryRun) {
+        if (emptyUuid) {
+          await logseq.Editor.updateBlock(emptyUuid, content);
+          emptyUuid = undefined;
+        } else {
+          await appendAreaBlock(area, content);
         }
-        if (!status && hasCompletedProperty(content)) {
-          continue;
-        }
-        await logseq.Editor.removeBlock(entity.uuid);
       }
+      recordChange(stats, pageName, "created", content);
     }
   }
 }
 
 /**
- * Builds block payloads for a set of Todoist tasks, including comments.
+ * Builds the block of one completed occurrence, linked to its recurring task block.
  *
- * @param tasks Tasks returned from Todoist ready for serialization.
- * @param projectMap Mapping of project ids to names.
- * @param labelMap Mapping of label ids or names to normalized names.
- * @param statusAliases Custom aliases for task status values.
+ * @param occurrence Completed occurrence of a recurring task.
+ * @param render Project lookups, status aliases, and project page prefix.
+ * @param masterPage Page the recurring task is written to in this sync, when known.
  */
-export function buildBlocks(
-  tasks: TodoistBackupTask[],
-  projectMap: Map<string, string>,
-  labelMap: Map<string, string>,
-  statusAliases: StatusAliases
-): IBatchBlock[] {
-  const sorted = [...tasks].sort((a, b) => {
-    const aCompleted = Boolean(a.completed);
-    const bCompleted = Boolean(b.completed);
-    if (aCompleted !== bCompleted) {
-      return aCompleted ? 1 : -1;
-    }
-    const aTime = dueTimestamp(a.due);
-    const bTime = dueTimestamp(b.due);
-    if (aTime !== bTime) {
-      return aTime - bTime;
-    }
-    return safeText(a.content).localeCompare(safeText(b.content));
-  });
+function occurrenceContent(occurrence: TodoistBackupTask, render: BlockRenderContext, masterPage?: string) {
+  const completedOn = formatCompletedDate(occurrence.completed_date ?? occurrence.completed_at);
+  const title = convertInlineTodoistLabels(safeLinkText(safeText(occurrence.content) || "Untitled task"));
+  const url = occurrence.url ?? `https://todoist.com/showTask?id=${occurrence.id}`;
+  const masterLink = `[${occurrence.id}](${url})`;
+  const projectName = render.projectMap.get(String(occurrence.project_id ?? "")) ?? "Inbox";
+  const projectValue = render.projectPagePrefix
+    ? `[[${resolveProjectPageName(render.projectPagePrefix, resolveProjectPageTitle(render, occurrence.project_id))}]]`
+    : `#${projectName}`;
+
+  const lines = [
+    `${render.taskMarkers ? "DONE " : ""}${completedOn ? `[[${completedOn}]]` : "[[No due date]]"} ${title}`,
+    `${TODOIST_OCCURRENCE_PROPERTY}:: ${occurrenceKey(occurrence)}`,
+    `${TODOIST_RECURRING_TASK_PROPERTY}:: ${masterPage ? `${masterLink} [[${masterPage}]]` : masterLink}`,
+    `todoist-project:: ${projectValue}`,
+  ];
+  if (completedOn) {
+    lines.push(`${TODOIST_COMPLETED_PROPERTY}:: [[${completedOn}]]`);
+  }
+  lines.push(`${TODOIST_STATUS_PROPERTY}:: ${resolveStatusAlias("completed", render.statusAliases)}`);
+  return tagAccount(lines.join("\n"), render.account);
+}
 
-  return sorted.map((task) => ({
-    content: blockContent(task, projectMap, labelMap, statusAliases),
-    children: buildCommentBlocks(task),
-  }));
+/**
+ * Identifies an occurrence by its task and completion time.
+ */
+function occurrenceKey(occurrence: TodoistBackupTask) {
+  return `${occurrence.id}@${occurrence.completed_at ?? occurrence.completed_date ?? ""}`;
 }
 
 /**
- * Generates the main block content for a Todoist task, including properties.
+ * Reads the `todoist-occurrence::` key of an occurrence block.
+ */
+function extractOccurrenceKey(content: string) {
+  return content.match(new RegExp(`^${TODOIST_OCCURRENCE_PROPERTY}::\\s*(.+)$`, "mi"))?.[1]?.trim() || undefined;
+}
+
+/**
+ * Collects the `todoist-occurrence::` keys of every block on a page.
+ */
+function collectOccurrenceKeys(tree: Array<BlockEntity | BlockUUIDTuple>) {
+  const keys = new Set<string>();
+  const visit = (blocks: Array<BlockEntity | BlockUUIDTuple>) => {
+    for (const block of blocks) {
+      if (!isBlockEntity(block)) {
+        continue;
+      }
+      const key = extractOccurrenceKey(block.content ?? "");
+      if (key) {
+        keys.add(key);
+      }
+      visit(block.children ?? []);
+    }
+  };
+  visit(tree);
+  return keys;
+}
+
+/**
+ * Builds the `todoist-parent::` value for subtasks that cannot be nested
+ * under their parent because the parent lives on another page or is absent.
  *
- * @param task Todoist task with optional completion metadata.
- * @param projectMap Mapping of project ids to names.
- * @param labelMap Mapping of label ids or names to normalized names.
- * @param statusAliases Custom aliases for task status values.
+ * @param task Todoist task being rendered.
+ * @param pageName Page the task will be written to.
+ * @param pageByTaskId Destination page of every task in the current sync.
  */
-export function blockContent(
+function resolveParentReference(
   task: TodoistBackupTask,
-  projectMap: Map<string, string>,
-  labelMap: Map<string, string>,
-  statusAliases: StatusAliases
+  pageName: string,
+  pageByTaskId: Map<string, string>
 ) {
-  const dueText = resolvePrimaryDate(task);
-  const rawTitle = safeLinkText(safeText(task.content) || "Untitled task");
-  const taskTitle = convertInlineTodoistLabels(rawTitle);
-  const projectName = projectMap.get(String(task.project_id ?? "")) ?? "Inbox";
-  const labels = resolveLabels(task, labelMap);
-  const url = task.url ?? `https://todoist.com/showTask?id=${task.id}`;
+  const parentId = resolveParentId(task);
+  if (!parentId) {
+    return undefined;
+  }
 
-  const dateLogseqFormat = dueText ? `[[${dueText}]]` : "[[No due date]]";
-  const taskTitleLogseqFormat = `${taskTitle}`;
+  const parentPage = pageByTaskId.get(parentId);
+  if (parentPage === pageName) {
+    return undefined;
+  }
 
-  const properties = [`todoist-id:: [${task.id}](${url})`, `todoist-project:: #${projectName}`];
+  const link = `[${parentId}](https://todoist.com/showTask?id=${parentId})`;
+  return parentPage ? `${link} [[${parentPage}]]` : link;
+}
 
-  const duePropertyValue = resolveDuePropertyValue(task);
-  if (duePropertyValue) {
-    properties.push(`${TODOIST_DUE_PROPERTY}:: ${duePropertyValue}`);
+/**
+ * Normalizes the Todoist parent id of a task, ignoring self references.
+ */
+function resolveParentId(task: TodoistBackupTask) {
+  if (task.parent_id === null || task.parent_id === undefined) {
+    return undefined;
   }
+  const parentId = String(task.parent_id);
+  return parentId && parentId !== String(task.id) ? parentId : undefined;
+}
 
-  const description = safeText(task.description ?? "");
-  if (description) {
-    properties.push(`todoist-desc:: ${description}`);
+/**
+ * Arranges the tasks of a single page into a parent/subtask tree.
+ * Subtasks whose parent is not on the page become roots; siblings follow `child_order`.
+ *
+ * @param entries Tasks with their prepared blocks for one page.
+ */
+function buildTaskTree(entries: TaskWithBlock[]): TaskNode[] {
+  const nodes = new Map<string, TaskNode>();
+  for (const entry of entries) {
+    nodes.set(String(entry.task.id), { ...entry, subtasks: [] });
   }
 
-  const labelsProperty = labels
-    .map((label) => {
-      const tag = formatLabelTag(label);
-      return tag.startsWith("#") ? tag : `#${tag}`;
-    })
-    .filter((value) => value.length > 0)
-    .join(" ");
+  const roots: TaskNode[] = [];
+  for (const [id, node] of nodes.entries()) {
+    const parentId = resolveParentId(node.task);
+    const parent = parentId ? nodes.get(parentId) : undefined;
+    if (parent && !isAncestor(id, parentId!, nodes)) {
+      parent.subtasks.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  for (const node of nodes.values()) {
+    node.subtasks.sort((a, b) => childOrder(a.task) - childOrder(b.task));
+  }
+
+  return roots;
+}
+
+/**
+ * Detects parent cycles so malformed payloads never produce detached subtrees.
+ *
+ * @param candidateId Task that would be attached below `parentId`.
+ * @param parentId Prospective parent of the candidate.
+ * @param nodes Tasks available on the page.
+ */
+function isAncestor(candidateId: string, parentId: string, nodes: Map<string, TaskNode>) {
+  const visited = new Set<string>();
+  let current: string | undefined = parentId;
+  while (current && !visited.has(current)) {
+    if (current === candidateId) {
+      return true;
+    }
+    visited.add(current);
+    const node = nodes.get(current);
+    current = node ? resolveParentId(node.task) : undefined;
+  }
+  return false;
+}
+
+/**
+ * Reads the sibling position of a task, placing unknown orders last.
+ */
+function childOrder(task: TodoistBackupTask) {
+  const value = Number(task.child_order);
+  return Number.isFinite(value) ? value : Number.POSITIVE_INFINITY;
+}
+
+/**
+ * Writes blocks to a specific Logseq page, updating or creating blocks as needed.
+ *
+ * @param pageName Destination page for the blocks.
+ * @param nodes Task tree to write, with subtasks nested under their parents.
+ * @param options Retirement, grouping, and adoption settings shared by every page.
+ */
+async function writeBlocksToPage(pageName: string, nodes: TaskNode[], options: PageWriteOptions) {
+  const { pagePrefix, account, retireUnseen, retirement, dryRun, pageByTaskId, relocated } = options;
+  const area = dryRun ? await findTaskArea(pageName, pagePrefix) : await openTaskArea(pageName, pagePrefix);
+  if (!area) {
+    // Dry run on a page that does not exist yet: every task would be created or moved here
+    const recordCreated = (node: TaskNode) => {
+      const moved = relocated.tasks.get(extractTodoistId(node.block.content) ?? "")?.block;
+      const change = !moved ? "created" : moved.content !== node.block.content ? "updated" : undefined;
+      recordChange(options.stats, pageName, change, node.block.content);
+      node.subtasks.forEach(recordCreated);
+    };
+    nodes.forEach(recordCreated);
+    return;
+  }
+
+  const existingBlocks = area.blocks;
+  const blockMap = buildBlockMap(existingBlocks, account);
+  if (dryRun) {
+    // Blocks a dry-run migration only pretended to move are still on their old page
+    for (const [todoistId, move] of relocated.tasks.entries()) {
+      if (move.pageName === pageName) {
+        blockMap.set(todoistId, move.block);
+      } else if (blockMap.get(todoistId)?.uuid === move.block.uuid) {
+        blockMap.delete(todoistId);
+      }
+    }
+  }
+  const context: PageWriteContext = {
+    area,
+    pageName,
+    blockMap,
+    seenIds: new Set<string>(),
+    ...options,
+    groupMap: buildGroupMap(existingBlocks),
+    firstTopLevelUuid: existingBlocks.find(isBlockEntity)?.uuid,
+  };
+
+  for (const node of nodes) {
+    // Incremental writes only see changed tasks, so unchanged parents are looked up on the page
+    const existingParent = retireUnseen ? undefined : findParentBlock(context, node.task);
+    const parent = existingParent ?? (await resolveGroupContainer(context, node.task));
+    await writeTaskNode(context, node, parent);
+  }
+
+  if (retireUnseen) {
+    for (const [todoistId, entity] of [...blockMap.entries()]) {
+      const content = entity.content ?? "";
+      if (
+        context.seenIds.has(todoistId) ||
+        retirement.excludedIds.has(todoistId) ||
+        isPreservedBlock(content, retirement)
+      ) {
+        continue;
+      }
+      const destination = pageByTaskId.get(todoistId);
+      if (destination !== undefined && destination !== pageName) {
+        // Stale copy of a task written to another page in this sync, not a deleted task
+        if (!dryRun) {
+          await removeTaskBlock(entity, (id) => (pageByTaskId.get(id) ?? pageName) === pageName);
+        }
+        recordChange(options.stats, pageName, "moved", content);
+        continue;
+      }
+      recordChange(options.stats, pageName, await retireTaskBlock(entity, retirement, dryRun), content);
+    }
+  }
+
+  if (dryRun) {
+    return;
+  }
+
+  if (context.groupMap.size > 0) {
+    await pruneEmptyGroupHeaders(area.page, pagePrefix);
+  }
+
+  if (nodes.length === 0 && blockMap.size === 0) {
+    await appendAreaBlock(area, PLACEHOLDER_CONTENT);
+  }
+}
+
+/**
+ * Finds the existing block of a task's parent on the current page.
+ */
+function findParentBlock(context: PageWriteContext, task: TodoistBackupTask) {
+  const parentId = resolveParentId(task);
+  return parentId ? context.blockMap.get(parentId) : undefined;
+}
+
+/**
+ * Returns the header block a top-level task belongs under when grouping is enabled,
+ * creating missing project and section headers on the way.
+ *
+ * @param context Page state shared across the write.
+ * @param task Top-level task being written.
+ */
+async function resolveGroupContainer(context: PageWriteContext, task: TodoistBackupTask) {
+  if (!context.grouping) {
+    return undefined;
+  }
+
+  const { project, section } = resolveTaskGroups(task, context.grouping);
+  const projectHeader = await ensureGroupHeader(context, project);
+  if (!section || !projectHeader) {
+    return projectHeader;
+  }
+  return (await ensureGroupHeader(context, section, projectHeader)) ?? projectHeader;
+}
+
+/**
+ * Updates or creates a project or section header block.
+ *
+ * @param context Page state shared across the write.
+ * @param group Header key and display name.
+ * @param parent Project header for section headers; undefined for top-level project headers.
+ */
+async function ensureGroupHeader(context: PageWriteContext, group: TaskGroup, parent?: BlockEntity) {
+  const content = groupHeaderContent(group);
+  const existing = context.groupMap.get(group.key);
+  if (context.dryRun) {
+    // Headers are not part of the plan; tasks under a missing header are treated as top-level
+    return existing;
+  }
+  if (existing) {
+    if ((existing.content ?? "") !== content) {
+      await logseq.Editor.updateBlock(existing.uuid, content);
+    }
+    if (parent && existing.parent?.id !== parent.id) {
+      await logseq.Editor.moveBlock(existing.uuid, parent.uuid, { children: true });
+    }
+    const current = { ...existing, content, parent: parent ? { id: parent.id } : existing.parent };
+    context.groupMap.set(group.key, current);
+    return current;
+  }
+
+  const created = parent
+    ? await logseq.Editor.insertBlock(parent.uuid, content, { sibling: false })
+    : await appendAreaBlock(context.area, content);
+  if (!created) {
+    return undefined;
+  }
+  context.groupMap.set(group.key, created);
+  return created;
+}
+
+/**
+ * Removes project and section headers left without children, and the Todoist section
+ * of a journal page once it holds nothing.
+ *
+ * @param page Page whose task area is inspected.
+ * @param pagePrefix Base page name prefix.
+ */
+async function pruneEmptyGroupHeaders(page: PageEntity, pagePrefix: string) {
+  const area = await readTaskArea(page, pagePrefix);
+  const prune = async (blocks: Array<BlockEntity | BlockUUIDTuple>) => {
+    let remaining = 0;
+    for (const block of blocks) {
+      if (isBlockEntity(block) && extractGroupKey(block.content ?? "")) {
+        const kept = await prune(block.children ?? []);
+        if (kept === 0) {
+          await logseq.Editor.removeBlock(block.uuid);
+          continue;
+        }
+      }
+      remaining += 1;
+    }
+    return remaining;
+  };
+  const remaining = await prune(area.blocks);
+  if (area.section && remaining === 0) {
+    await logseq.Editor.removeBlock(area.section.uuid);
+  }
+}
+
+/**
+ * Writes a task block and its subtasks, keeping existing blocks under the right parent.
+ *
+ * @param context Page state shared across the write.
+ * @param node Task to write along with its subtasks.
+ * @param parent Block of the parent task, or undefined for top-level tasks.
+ */
+async function writeTaskNode(context: PageWriteContext, node: TaskNode, parent?: BlockEntity) {
+  const todoistId = extractTodoistId(node.block.content);
+  if (!todoistId) return;
+
+  let formatted = node.block.content;
+  const existing = context.blockMap.get(todoistId);
+  const adopted = existing ? undefined : await findAdoptedBlock(context, todoistId);
+  const { pageName, dryRun } = context;
+  let target: BlockEntity | null | undefined;
+  if (adopted) {
+    // Blocks sent from elsewhere in the graph stay where the user wrote them
+    if (!dryRun) {
+      await logseq.Editor.updateBlock(adopted.uuid, formatted);
+    }
+    recordChange(context.stats, pageName, adopted.content !== formatted ? "updated" : undefined, formatted);
+    target = adopted;
+  } else if (existing) {
+    const existingDue = extractTodoistDue(existing.content ?? "");
+    if (existingDue && !hasDueProperty(formatted)) {
+      formatted = applyDueFallback(formatted, existingDue);
+    }
+
+    if (!dryRun) {
+      await logseq.Editor.updateBlock(existing.uuid, formatted);
+      await placeTaskBlock(context, existing, parent);
+    }
+    recordChange(context.stats, pageName, existing.content !== formatted ? "updated" : undefined, formatted);
+    target = existing;
+  } else if (dryRun) {
+    recordChange(context.stats, pageName, "created", formatted);
+  } else if (parent) {
+    target = await logseq.Editor.insertBlock(parent.uuid, formatted, { sibling: false });
+    recordChange(context.stats, pageName, "created", formatted);
+  } else {
+    target = await appendAreaBlock(context.area, formatted);
+    recordChange(context.stats, pageName, "created", formatted);
+  }
 
+  context.seenIds.add(todoistId);
+
+  if (dryRun) {
+    // Subtasks of blocks that do not exist yet are planned without a parent
+    for (const subtask of node.subtasks) {
+      await writeTaskNode(context, subtask, target ?? undefined);
+    }
+    return;
+  }
+
+  if (!target) {
+    return;
+  }
+
+  context.blockMap.set(todoistId, target);
+  if (!parent && !adopted) {
+    context.lastTopLevelUuid = target.uuid;
+  }
+
+  await syncDescription(target.uuid, node.description);
+  await syncComments(target.uuid, node.block.children ?? []);
+
+  for (const subtask of node.subtasks) {
+    await writeTaskNode(context, subtask, target);
+  }
+}
+
+/**
+ * Loads the block a task was created from when it still carries the task id.
+ *
+ * @param context Page state shared across the write.
+ * @param todoistId Task being written.
+ */
+async function findAdoptedBlock(context: PageWriteContext, todoistId: string) {
+  const uuid = context.adoptedBlocks.get(todoistId);
+  if (!uuid) {
+    return undefined;
+  }
+  const block = await logseq.Editor.getBlock(uuid);
+  if (!block || extractTodoistId(block.content ?? "") !== todoistId) {
+    return undefined;
+  }
+  return block;
+}
+
+/**
+ * Moves an existing task block when its parent changed since the last sync.
+ *
+ * @param context Page state shared across the write.
+ * @param block Existing block for the task.
+ * @param parent Expected parent block, or undefined when the task is top-level.
+ */
+async function placeTaskBlock(context: PageWriteContext, block: BlockEntity, parent?: BlockEntity) {
+  const currentParentId = block.parent?.id;
+  if (parent) {
+    if (currentParentId !== parent.id) {
+      await logseq.Editor.moveBlock(block.uuid, parent.uuid, { children: true });
+    }
+    return;
+  }
+
+  const topLevelId = (context.area.section ?? context.area.page).id;
+  if (currentParentId === undefined || currentParentId === topLevelId) {
+    return;
+  }
+
+  if (context.lastTopLevelUuid && context.lastTopLevelUuid !== block.uuid) {
+    await logseq.Editor.moveBlock(block.uuid, context.lastTopLevelUuid, { before: false, children: false });
+  } else if (context.firstTopLevelUuid && context.firstTopLevelUuid !== block.uuid) {
+    await logseq.Editor.moveBlock(block.uuid, context.firstTopLevelUuid, { before: true, children: false });
+  }
+}
+
+/**
+ * Removes a task block, first moving out nested task blocks that must survive.
+ * Survivors are placed right before the removed block so they keep its nesting level.
+ *
+ * @param block Block to remove.
+ * @param shouldKeep Predicate selecting nested task blocks that must not be removed.
+ */
+async function removeTaskBlock(block: BlockEntity, shouldKeep: (todoistId: string, content: string) => boolean) {
+  const current = await logseq.Editor.getBlock(block.uuid, { includeChildren: true });
+  if (!current) {
+    return;
+  }
+
+  const pending = [...(current.children ?? [])];
+  while (pending.length > 0) {
+    const child = pending.shift();
+    if (!isBlockEntity(child)) {
+      continue;
+    }
+    const content = child.content ?? "";
+    const todoistId = extractTodoistId(content);
+    if (todoistId && shouldKeep(todoistId, content)) {
+      await logseq.Editor.moveBlock(child.uuid, block.uuid, { before: true, children: false });
+    } else {
+      pending.push(...(child.children ?? []));
+    }
+  }
+
+  await logseq.Editor.removeBlock(block.uuid);
+}
+
+/**
+ * Marks a task that vanished from Todoist as deleted, keeping its block as backup.
+ * Blocks already marked are purged once their deletion date passes the retention window.
+ *
+ * @param block Block of the vanished task.
+ * @param retirement Dates and aliases used when marking or purging deleted tasks.
+ * @param dryRun Returns the change without making it.
+ * @returns The change made, or undefined when the block was left as it was.
+ */
+async function retireTaskBlock(
+  block: BlockEntity,
+  retirement: RetirementContext,
+  dryRun = false
+): Promise<WriteChange | undefined> {
+  const content = block.content ?? "";
+  if (isDeletedBlock(content)) {
+    const deletedOn = extractDeletedDate(content);
+    if (retirement.purgeBefore && deletedOn && deletedOn < retirement.purgeBefore) {
+      if (!dryRun) {
+        await removeTaskBlock(block, (_id, childContent) => !isDeletedBlock(childContent));
+      }
+      return "purged";
+    }
+    return undefined;
+  }
+
+  if (!dryRun) {
+    await logseq.Editor.updateBlock(block.uuid, markDeletedContent(content, retirement));
+  }
+  return "retired";
+}
+
+/**
+ * Rewrites block content with the deleted status and deletion date properties.
+ *
+ * @param content Current block content.
+ * @param retirement Dates and aliases used when marking deleted tasks.
+ */
+function markDeletedContent(content: string, retirement: RetirementContext) {
+  const lines = content.split("\n");
+  // Deleted tasks must not show up in Logseq's TODO queries and agenda
+  lines[0] = lines[0].replace(OPEN_MARKER_PATTERN, "CANCELED ");
+  const statusRegex = new RegExp(`^${TODOIST_STATUS_PROPERTY}::`, "i");
+  const statusLine = `${TODOIST_STATUS_PROPERTY}:: ${retirement.statusAliases.deleted}`;
+  const deletedLine = `${TODOIST_DELETED_PROPERTY}:: [[${retirement.deletedOn}]]`;
+
+  const statusIndex = lines.findIndex((line) => statusRegex.test(line));
+  if (statusIndex !== -1) {
+    lines.splice(statusIndex, 1, deletedLine, statusLine);
+  } else {
+    lines.push(deletedLine, statusLine);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Removes tasks from old pages when they've been moved to different dates.
+ * Searches for Todoist tasks in pages matching the prefix pattern and in journal sections.
+ *
+ * @param pagePrefix Base page name prefix.
+ * @param account Account being synced; blocks of other accounts are left alone.
+ * @param currentTasksByPage Map of current page names to their tasks.
+ * @param incremental Whether the current sync only carries changed tasks.
+ * @param deletedTaskIds Tasks reported as deleted by an incremental sync.
+ * @param retirement Dates and aliases used when marking or purging deleted tasks.
+ * @param stats Statistics of the current write.
+ * @param dryRun Records the removals without making them.
+ * @param relocated Blocks moved by a layout migration; a dry run skips them here.
+ */
+async function cleanupObsoletePages(
+  pagePrefix: string,
+  account: string | undefined,
+  currentTasksByPage: Map<string, TaskWithBlock[]>,
+  incremental: boolean,
+  deletedTaskIds: Set<string>,
+  retirement: RetirementContext,
+  stats: WriteStats,
+  dryRun: boolean,
+  relocated: RelocatedBlocks
+) {
+  // Map every current task to the page it was written to
+  const destinationById = new Map<string, string>();
+  for (const [pageName, tasksWithBlocks] of currentTasksByPage.entries()) {
+    for (const { task } of tasksWithBlocks) {
+      destinationById.set(String(task.id), pageName);
+    }
+  }
+
+  for (const page of await listTaskPages(pagePrefix)) {
+    const pageName = page.originalName ?? page.name;
+
+    // Full syncs already cleaned the pages they wrote
+    if (!incremental && currentTasksByPage.has(pageName)) {
+      continue;
+    }
+
+    // Check task blocks on this page
+    const existingBlocks = (await readTaskArea(page, pagePrefix)).blocks;
+    if (existingBlocks.length === 0) {
+      continue;
+    }
+
+    // Tasks written to another page in this sync are stale copies
+    const movedAway = (todoistId: string) => {
+      const destination = destinationById.get(todoistId);
+      return destination !== undefined && destination !== pageName;
+    };
+
+    const blockMap = buildBlockMap(existingBlocks, account);
+    for (const [todoistId, entity] of blockMap.entries()) {
+      const content = entity.content ?? "";
+      if (dryRun && relocated.tasks.has(todoistId)) {
+        continue;
+      }
+      if (destinationById.has(todoistId)) {
+        if (movedAway(todoistId)) {
+          if (!dryRun) {
+            await removeTaskBlock(entity, (id) => !movedAway(id));
+          }
+          recordChange(stats, pageName, "moved", content);
+        }
+        continue;
+      }
+
+      const explicitlyDeleted = deletedTaskIds.has(todoistId);
+      if (incremental && !explicitlyDeleted) {
+        if (isDeletedBlock(content)) {
+          recordChange(stats, pageName, await retireTaskBlock(entity, retirement, dryRun), content);
+        }
+        continue;
+      }
+
+      if (!explicitlyDeleted && (retirement.excludedIds.has(todoistId) || isPreservedBlock(content, retirement))) {
+        continue;
+      }
+      recordChange(stats, pageName, await retireTaskBlock(entity, retirement, dryRun), content);
+    }
+
+    if (!dryRun && buildGroupMap(existingBlocks).size > 0) {
+      await pruneEmptyGroupHeaders(page, pagePrefix);
+    }
+  }
+}
+
+/**
+ * Moves task and occurrence blocks to the pages of a new layout, keeping their uuids,
+ * children, and anything the user added to them. Tasks in the current sync follow
+ * `pageByTaskId`; other blocks are routed from their own properties. Subtasks stay with
+ * their parent unless the sync places them elsewhere.
+ *
+ * @param pagePrefix Base page name prefix.
+ * @param routing Page layout the blocks move to.
+ * @param account Account being synced; blocks of other accounts stay where they are.
+ * @param pageByTaskId Destination page of every task in the current sync.
+ * @param stats Statistics of the current write.
+ * @param dryRun Records the moves without making them.
+ */
+async function relocateTaskBlocks(
+  pagePrefix: string,
+  routing: PageRouting,
+  account: string | undefined,
+  pageByTaskId: Map<string, string>,
+  stats: WriteStats,
+  dryRun: boolean
+): Promise<RelocatedBlocks> {
+  const relocated: RelocatedBlocks = { tasks: new Map(), occurrences: new Map() };
+  const lastBlockByPage = new Map<string, string>();
+
+  for (const page of await listTaskPages(pagePrefix)) {
+    const pageName = page.originalName ?? page.name;
+    const area = await readTaskArea(page, pagePrefix);
+    const tree = area.blocks;
+    const moves: Array<RelocatedBlock & { todoistId?: string; occurrence?: string }> = [];
+    const visit = (blocks: Array<BlockEntity | BlockUUIDTuple>, underTask: boolean) => {
+      for (const block of blocks) {
+        if (!isBlockEntity(block)) {
+          continue;
+        }
+        const content = block.content ?? "";
+        if (isCommentWrapper(content) || isDescriptionWrapper(content)) {
+          continue;
+        }
+        const todoistId = extractTodoistId(content);
+        const occurrence = todoistId ? undefined : extractOccurrenceKey(content);
+        if ((todoistId || occurrence) && extractTodoistAccount(content) !== account) {
+          continue;
+        }
+        let destination = todoistId ? pageByTaskId.get(todoistId) : undefined;
+        if (!destination && (todoistId || occurrence) && !underTask) {
+          destination = routePageName(resolveBlockRoute(content), pagePrefix, routing);
+        }
+        if (destination && destination !== pageName) {
+          moves.push({ block, pageName: destination, todoistId, occurrence });
+          continue;
+        }
+        visit(block.children ?? [], underTask || Boolean(todoistId));
+      }
+    };
+    visit(tree, false);
+
+    for (const move of moves) {
+      if (!dryRun) {
+        await moveBlockToPage(move.block, move.pageName, pagePrefix, lastBlockByPage);
+      }
+      const entry = { block: move.block, pageName: move.pageName };
+      if (move.todoistId) {
+        relocated.tasks.set(move.todoistId, entry);
+      } else if (move.occurrence) {
+        relocated.occurrences.set(move.occurrence, entry);
+      }
+      recordChange(stats, pageName, "moved", move.block.content ?? "");
+    }
+
+    if (!dryRun && moves.length > 0 && (area.section || buildGroupMap(tree).size > 0)) {
+      await pruneEmptyGroupHeaders(page, pagePrefix);
+    }
+  }
+
+  return relocated;
+}
+
+/**
+ * Moves a block and its children to the end of another page's task area, creating the
+ * page or journal section when needed.
+ *
+ * @param block Block to move.
+ * @param pageName Destination page.
+ * @param pagePrefix Base page name prefix.
+ * @param lastBlockByPage Last top-level block of each destination page, updated as blocks arrive.
+ */
+async function moveBlockToPage(
+  block: BlockEntity,
+  pageName: string,
+  pagePrefix: string,
+  lastBlockByPage: Map<string, string>
+) {
+  let anchor = lastBlockByPage.get(pageName);
+  let emptyUuid: string | undefined;
+  if (!anchor) {
+    const area = await openTaskArea(pageName, pagePrefix);
+    const tree = area.blocks.filter(isBlockEntity);
+    const last = tree[tree.length - 1] ?? (await appendAreaBlock(area, ""));
+    if (!last) {
+      throw new Error(`Failed to prepare page "${pageName}".`);
+    }
+    anchor = last.uuid;
+    // A freshly created page or section only holds an empty block, which the moved block replaces
+    if (tree.length <= 1 && !(last.content ?? "").trim()) {
+      emptyUuid = last.uuid;
+    }
+  }
+
+  await logseq.Editor.moveBlock(block.uuid, anchor, { before: false, children: false });
+  if (emptyUuid) {
+    await logseq.Editor.removeBlock(emptyUuid);
+  }
+  lastBlockByPage.set(pageName, block.uuid);
+}
+
+/**
+ * Resolves the page holding a project's metadata and comments, e.g. `todoist/projects/Work`.
+ *
+ * @param pagePrefix Base page name prefix.
+ * @param projectName Project name; slashes are replaced so sub-namespaces are not created.
+ */
+export function resolveProjectPageName(pagePrefix: string, projectName: string) {
+  const title = safeText(projectName).replace(/\//g, "-") || "Untitled project";
+  return `${pagePrefix}/${PROJECT_PAGE_SEGMENT}/${title}`;
+}
+
+/**
+ * Picks a distinct page title for every project. Projects sharing a name (including an
+ * archived project and its active namesake) would otherwise write to one page, so the first
+ * active project keeps the plain name and the others get their id appended, e.g. `Work (6Jf8VQXxpwv56VQ7)`.
+ *
+ * @param projects Every known project.
+ * @returns Page titles keyed by project id.
+ */
+export function buildProjectPageTitles(projects: TodoistProject[]) {
+  const ordered = [...projects].sort(
+    (a, b) =>
+      Number(Boolean(a.is_archived)) - Number(Boolean(b.is_archived)) || String(a.id).localeCompare(String(b.id))
+  );
+  const taken = new Set<string>();
+  const titles = new Map<string, string>();
+  for (const project of ordered) {
+    const key = projectMatchKey(project.name);
+    titles.set(String(project.id), taken.has(key) ? `${project.name} (${project.id})` : project.name);
+    taken.add(key);
+  }
+  return titles;
+}
+
+/**
+ * Resolves the page title of a task's project, falling back to the project name and
+ * then to `Inbox`.
+ *
+ * @param render Project lookups.
+ * @param projectId Todoist project id of the task.
+ */
+function resolveProjectPageTitle(
+  render: Pick<BlockRenderContext, "projectMap" | "projectPageTitles">,
+  projectId: string | number | null | undefined
+) {
+  const id = String(projectId ?? "");
+  return render.projectPageTitles?.get(id) ?? render.projectMap.get(id) ?? "Inbox";
+}
+
+/**
+ * Writes one page per project with its properties, sub-project hierarchy, and comments.
+ * Only the blocks managed here are replaced; anything else on the page is kept.
+ *
+ * @param pagePrefix Base page name prefix.
+ * @param projects Every known project.
+ * @param projectComments Project comments keyed by project id, when comments are enabled.
+ * @param dryRun Reports the pages that would change without writing them.
+ * @returns Names of the project pages that were rewritten.
+ */
+export async function writeProjectPages(
+  pagePrefix: string,
+  projects: TodoistProject[],
+  projectComments?: Map<string, TodoistProjectComment[]>,
+  dryRun = false
+) {
+  const changedPages: string[] = [];
+  const titles = buildProjectPageTitles(projects);
+  const pageNames = new Map(
+    [...titles].map(([projectId, title]) => [projectId, resolveProjectPageName(pagePrefix, title)])
+  );
+  const byId = new Map(projects.map((project) => [String(project.id), project]));
+  const childrenOf = new Map<string, TodoistProject[]>();
+  for (const project of projects) {
+    const parentId = project.parent_id ? String(project.parent_id) : "";
+    if (parentId && byId.has(parentId)) {
+      childrenOf.set(parentId, [...(childrenOf.get(parentId) ?? []), project]);
+    }
+  }
+  for (const siblings of childrenOf.values()) {
+    siblings.sort((a, b) => (a.child_order ?? 0) - (b.child_order ?? 0));
+  }
+
+  const buildHierarchy = (projectId: string, visited: Set<string>): IBatchBlock[] =>
+    (childrenOf.get(projectId) ?? [])
+      .filter((child) => !visited.has(String(child.id)))
+      .map((child) => ({
+        content: `[[${pageNames.get(String(child.id))}]]`,
+        children: buildHierarchy(String(child.id), new Set([...visited, String(child.id)])),
+      }));
+
+  for (const project of projects) {
+    const projectId = String(project.id);
+    const parentPage = project.parent_id ? pageNames.get(String(project.parent_id)) : undefined;
+    const hierarchy = buildHierarchy(projectId, new Set([projectId]));
+    const managed: IBatchBlock[] = [{ content: projectPropertiesContent(project, parentPage) }];
+    if (hierarchy.length > 0) {
+      managed.push({
+        content: ["subprojects...", `${TODOIST_PROJECT_CHILDREN_PROPERTY}:: ${hierarchy.length}`].join("\n"),
+        children: hierarchy,
+      });
+    }
+    if (projectComments) {
+      managed.push(
+        ...buildCommentWrapper(
+          projectComments.get(projectId) ?? [],
+          (comment) => `https://todoist.com/app/project/${projectId}/comment/${comment.id}`
+        )
+      );
+    }
+    const pageName = pageNames.get(projectId) ?? resolveProjectPageName(pagePrefix, project.name);
+    if (await writeProjectPage(pageName, managed, dryRun)) {
+      changedPages.push(pageName);
+    }
+  }
+  changedPages.push(...(await markRenamedProjectPages(pagePrefix, pageNames, dryRun)));
+  return changedPages;
+}
+
+/**
+ * Marks project pages left behind by a rename or a new name clash as stale: their managed
+ * blocks are replaced by a `todoist-renamed-to::` link to the project's current page.
+ * Pages of deleted projects and anything else on the stale page are left untouched.
+ *
+ * @param pagePrefix Base page name prefix.
+ * @param pageNames Current project page names keyed by project id.
+ * @param dryRun Reports the pages that would change without writing them.
+ * @returns Names of the stale pages that were rewritten.
+ */
+async function markRenamedProjectPages(pagePrefix: string, pageNames: Map<string, string>, dryRun: boolean) {
+  const projectsPrefix = `${pagePrefix}/${PROJECT_PAGE_SEGMENT}/`.toLowerCase();
+  const current = new Set([...pageNames.values()].map((name) => name.toLowerCase()));
+  const changedPages: string[] = [];
+  for (const page of (await logseq.Editor.getAllPages()) ?? []) {
+    const pageName = page.originalName ?? page.name;
+    if (!pageName.toLowerCase().startsWith(projectsPrefix) || current.has(pageName.toLowerCase())) {
+      continue;
+    }
+    const tree = ((await logseq.Editor.getPageBlocksTree(page.uuid)) ?? []).filter(isBlockEntity);
+    const properties = tree.find((block) => isProjectPropertiesBlock(block.content ?? ""));
+    const projectId = parseProjectPageId(properties?.content ?? "");
+    const renamedTo = projectId ? pageNames.get(projectId) : undefined;
+    if (!renamedTo) {
+      continue;
+    }
+    changedPages.push(pageName);
+    if (dryRun) {
+      continue;
+    }
+    for (const block of tree) {
+      if (isManagedProjectBlock(block.content ?? "")) {
+        await logseq.Editor.removeBlock(block.uuid);
+      }
+    }
+    const marker = `${TODOIST_PROJECT_RENAMED_PROPERTY}:: [[${renamedTo}]]`;
+    const [first] = ((await logseq.Editor.getPageBlocksTree(page.uuid)) ?? []).filter(isBlockEntity);
+    if (first) {
+      await logseq.Editor.insertBlock(first.uuid, marker, { before: true, sibling: true });
+    } else {
+      await logseq.Editor.appendBlockInPage(page.uuid, marker);
+    }
+  }
+  return changedPages;
+}
+
+/**
+ * Reads the Todoist project id from the properties block of a project page.
+ */
+function parseProjectPageId(content: string) {
+  const match = content.match(new RegExp(`^${TODOIST_PROJECT_ID_PROPERTY}::\\s*\\[([^\\]]+)\\]`, "m"));
+  return match?.[1].trim() ?? "";
+}
+
+/**
+ * Replaces the managed blocks of a project page, creating the page when needed.
+ * The properties block stays first so Logseq reads it as page properties.
+ *
+ * @param pageName Project page name.
+ * @param managed Properties block followed by the hierarchy and comment wrappers.
+ * @param dryRun Only reports whether the page would change.
+ * @returns Whether the managed blocks differed from the page.
+ */
+async function writeProjectPage(pageName: string, managed: IBatchBlock[], dryRun: boolean) {
+  const page = dryRun ? await logseq.Editor.getPage(pageName) : await ensurePage(pageName);
+  if (!page) {
+    return true;
+  }
+
+  const existing = ((await logseq.Editor.getPageBlocksTree(page.uuid)) ?? []).filter(isBlockEntity);
+  const current = existing.filter((block) => isManagedProjectBlock(block.content ?? ""));
+  if (serializeBlocks(current) === serializeBlocks(managed)) {
+    return false;
+  }
+  if (dryRun) {
+    return true;
+  }
+
+  for (const block of existing) {
+    const content = block.content ?? "";
+    if (isManagedProjectBlock(content)) {
+      await logseq.Editor.removeBlock(block.uuid);
+    } else if (!content.trim()) {
+      // Drop the empty first block Logseq creates with new pages
+      await logseq.Editor.removeBlock(block.uuid);
+    }
+  }
+
+  const remaining = ((await logseq.Editor.getPageBlocksTree(page.uuid)) ?? []).filter(isBlockEntity);
+  const [first] = remaining;
+  if (first) {
+    await logseq.Editor.insertBatchBlock(first.uuid, managed, { before: true, sibling: true });
+  } else {
+    const anchor = await logseq.Editor.appendBlockInPage(page.uuid, managed[0].content);
+    if (anchor && managed.length > 1) {
+      await logseq.Editor.insertBatchBlock(anchor.uuid, managed.slice(1), { sibling: true });
+    }
+  }
+  return true;
+}
+
+/**
+ * Builds the page-properties block of a project page.
+ *
+ * @param project Project to describe.
+ * @param parentPage Page of the parent project, when the project is nested.
+ */
+function projectPropertiesContent(project: TodoistProject, parentPage: string | undefined) {
+  const lines = [
+    `${TODOIST_PROJECT_ID_PROPERTY}:: [${project.id}](https://todoist.com/app/project/${project.id})`,
+  ];
+  if (parentPage) {
+    lines.push(`${TODOIST_PARENT_PROPERTY}:: [[${parentPage}]]`);
+  }
+  if (project.color) {
+    lines.push(`todoist-color:: ${safeText(project.color)}`);
+  }
+  if (project.view_style) {
+    lines.push(`todoist-view-style:: ${safeText(project.view_style)}`);
+  }
+  lines.push(`todoist-favorite:: ${Boolean(project.is_favorite)}`);
+  lines.push(`todoist-archived:: ${Boolean(project.is_archived)}`);
+  if (project.is_shared) {
+    lines.push("todoist-shared:: true");
+  }
+  if (project.inbox_project) {
+    lines.push("todoist-inbox:: true");
+  }
+  const description = safeText(project.description ?? "");
+  if (description) {
+    lines.push(`todoist-desc:: ${description}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Detects blocks on project pages that are rewritten by each sync.
+ */
+function isManagedProjectBlock(content: string) {
+  return (
+    isProjectPropertiesBlock(content) ||
+    isProjectChildrenWrapper(content) ||
+    isCommentWrapper(content) ||
+    new RegExp(`^${TODOIST_PROJECT_RENAMED_PROPERTY}::`, "m").test(content)
+  );
+}
+
+/**
+ * Serializes block contents and nesting so existing and freshly built trees can be compared.
+ */
+function serializeBlocks(blocks: Array<{ content?: string; children?: unknown[] }>): string {
+  return JSON.stringify(
+    blocks.map((block) => [
+      (block.content ?? "").trim(),
+      serializeBlocks(
+        (block.children ?? []).filter(
+          (child): child is { content?: string; children?: unknown[] } =>
+            Boolean(child) && typeof child === "object" && !Array.isArray(child)
+        )
+      ),
+    ])
+  );
+}
+
+/**
+ * Detects the properties block written on project pages.
+ */
+function isProjectPropertiesBlock(content: string) {
+  return new RegExp(`^${TODOIST_PROJECT_ID_PROPERTY}::`, "m").test(content);
+}
+
+/**
+ * Detects the sub-project hierarchy wrapper written on project pages.
+ */
+function isProjectChildrenWrapper(content: string) {
+  return new RegExp(`(?:^|\n)${TODOIST_PROJECT_CHILDREN_PROPERTY}::`, "m").test(content);
+}
+
+/**
+ * Generates the main block content for a Todoist task, including properties.
+ *
+ * @param task Todoist task with optional completion metadata.
+ * @param render Project, label, and section lookups plus status aliases.
+ * @param parentReference Link to the parent task when the block is not nested under it.
+ */
+export function blockContent(
+  task: TodoistBackupTask,
+  render: BlockRenderContext,
+  parentReference?: string
+) {
+  if (render.taskTemplate) {
+    const rendered = renderTemplate(render.taskTemplate, taskTemplateValues(task, render, parentReference));
+    return tagAccount(rendered, render.account);
+  }
+
+  const { projectMap, labelMap, statusAliases } = render;
+  const dueText = resolvePrimaryDate(task);
+  const rawTitle = safeLinkText(safeText(task.content) || "Untitled task");
+  const taskTitle = convertInlineTodoistLabels(rawTitle);
+  const projectName = projectMap.get(String(task.project_id ?? "")) ?? "Inbox";
+  const labels = resolveLabels(task, labelMap);
+  const url = task.url ?? `https://todoist.com/showTask?id=${task.id}`;
+
+  const dateLogseqFormat = dueText ? `[[${dueText}]]` : "[[No due date]]";
+  const priorityMarker = render.priorityMarkers ? resolvePriorityMarker(task.priority) : "";
+  const taskTitleLogseqFormat = priorityMarker ? `${priorityMarker} ${taskTitle}` : `${taskTitle}`;
+
+  const projectValue = render.projectPagePrefix
+    ? `[[${resolveProjectPageName(render.projectPagePrefix, resolveProjectPageTitle(render, task.project_id))}]]`
+    : `#${projectName}`;
+  const properties = [`todoist-id:: [${task.id}](${url})`, `todoist-project:: ${projectValue}`];
+  if (render.account) {
+    properties.push(`${TODOIST_ACCOUNT_PROPERTY}:: ${render.account}`);
+  }
+
+  const sectionName = resolveSectionName(task, render.sectionMap);
+  if (sectionName) {
+    properties.push(`${TODOIST_SECTION_PROPERTY}:: ${sectionName}`);
+  }
+
+  const duePropertyValue = resolveDuePropertyValue(task);
+  if (duePropertyValue) {
+    properties.push(`${TODOIST_DUE_PROPERTY}:: ${duePropertyValue}`);
+  }
+
+  const recurrence = task.due?.is_recurring ? safeText(task.due.string ?? "") : "";
+  if (recurrence) {
+    properties.push(`${TODOIST_RECURRENCE_PROPERTY}:: ${recurrence}`);
+  }
+
+  const priority = formatPriority(task.priority);
+  if (priority) {
+    properties.push(`${TODOIST_PRIORITY_PROPERTY}:: ${priority}`);
+  }
+
+  const deadline = formatDeadline(task.deadline);
+  if (deadline) {
+    properties.push(`${TODOIST_DEADLINE_PROPERTY}:: [[${deadline}]]`);
+  }
+
+  const duration = formatDuration(task.duration);
+  if (duration) {
+    properties.push(`${TODOIST_DURATION_PROPERTY}:: ${duration}`);
+  }
+
+  const description = render.descriptionBlocks ? "" : safeText(task.description ?? "");
+  if (description) {
+    properties.push(`todoist-desc:: ${description}`);
+  }
+
+  const labelsProperty = formatLabelTags(labels);
   if (labelsProperty) {
     properties.push(`todoist-labels:: ${labelsProperty}`);
   }
 
+  if (parentReference) {
+    properties.push(`${TODOIST_PARENT_PROPERTY}:: ${parentReference}`);
+  }
+
   if (task.completed) {
     const completedDate = task.completed_date ?? task.completed_at ?? "";
     const formatted = formatCompletedDate(completedDate);
@@ -337,20 +2002,150 @@ export function blockContent(
     }
   }
 
+  const created = formatCompletedDate(task.created_at);
+  if (created) {
+    properties.push(`${TODOIST_CREATED_PROPERTY}:: [[${created}]]`);
+  }
+
   const statusValue = task.status ?? (task.completed ? "completed" : "active");
   const statusAlias = resolveStatusAlias(statusValue, statusAliases);
   properties.push(`${TODOIST_STATUS_PROPERTY}:: ${statusAlias}`);
 
-  return [`${dateLogseqFormat} ${taskTitleLogseqFormat}`, ...properties].join("\n");
+  if (!render.taskMarkers) {
+    return [`${dateLogseqFormat} ${taskTitleLogseqFormat}`, ...properties].join("\n");
+  }
+
+  const marker = resolveTaskMarker(task, render);
+  const planning = [];
+  const scheduled = formatDueTimestamp(task.due);
+  if (scheduled) {
+    planning.push(`SCHEDULED: ${scheduled}`);
+  }
+  if (deadline) {
+    planning.push(`DEADLINE: ${formatPlanningTimestamp(deadline)}`);
+  }
+  return [`${marker} ${dateLogseqFormat} ${taskTitleLogseqFormat}`, ...planning, ...properties].join("\n");
+}
+
+/**
+ * Collects the placeholder values of a task for a user block template.
+ * Dates are plain `YYYY-MM-DD` text so templates decide whether to link them.
+ *
+ * @param task Todoist task being rendered.
+ * @param render Project, label, and section lookups plus status aliases.
+ * @param parentReference Parent task reference for subtasks placed apart from their parent.
+ */
+function taskTemplateValues(
+  task: TodoistBackupTask,
+  render: BlockRenderContext,
+  parentReference?: string
+): TemplateValues {
+  const projectName = render.projectMap.get(String(task.project_id ?? "")) ?? "Inbox";
+  const completedDate = task.completed ? task.completed_date ?? task.completed_at ?? "" : "";
+  const statusValue = task.status ?? (task.completed ? "completed" : "active");
+  return {
+    id: String(task.id),
+    url: task.url ?? `https://todoist.com/showTask?id=${task.id}`,
+    title: convertInlineTodoistLabels(safeLinkText(safeText(task.content) || "Untitled task")),
+    date: resolvePrimaryDate(task),
+    due: resolveDuePropertyValue(task),
+    project: render.projectPagePrefix
+      ? `[[${resolveProjectPageName(render.projectPagePrefix, resolveProjectPageTitle(render, task.project_id))}]]`
+      : `#${projectName}`,
+    section: resolveSectionName(task, render.sectionMap),
+    labels: formatLabelTags(resolveLabels(task, render.labelMap)),
+    status: resolveStatusAlias(statusValue, render.statusAliases),
+    priority: formatPriority(task.priority),
+    priority_marker: resolvePriorityMarker(task.priority),
+    recurrence: task.due?.is_recurring ? safeText(task.due.string ?? "") : "",
+    deadline: formatDeadline(task.deadline),
+    marker: resolveTaskMarker(task, render),
+    due_timestamp: formatDueTimestamp(task.due),
+    deadline_timestamp: formatDeadline(task.deadline) ? formatPlanningTimestamp(formatDeadline(task.deadline)) : "",
+    duration: formatDuration(task.duration),
+    description: render.descriptionBlocks ? "" : safeText(task.description ?? ""),
+    parent: parentReference,
+    completed: formatCompletedDate(completedDate) || safeLinkText(completedDate),
+    created: formatCompletedDate(task.created_at),
+  };
+}
+
+/**
+ * Parses a task block template and checks that every block it renders keeps the
+ * `todoist-id::` property that links blocks to their tasks: the line must sit outside
+ * all `{{#if}}`/`{{#unless}}` sections.
+ *
+ * @param source Template text from the settings.
+ * @throws TemplateError when the template is invalid or can drop `todoist-id::`.
+ */
+export function compileTaskTemplate(source: string) {
+  const template = compileTemplate(source, TASK_TEMPLATE_FIELDS);
+  if (!hasUnconditionalProperty(template, TODOIST_ID_PROPERTY, "id")) {
+    throw new TemplateError(
+      `The template must render a "${TODOIST_ID_PROPERTY}:: {{id}}" line outside any conditional, e.g. "${TODOIST_ID_PROPERTY}:: [{{id}}]({{url}})".`
+    );
+  }
+  return template;
+}
+
+/**
+ * Parses a comment block template.
+ *
+ * @param source Template text from the settings.
+ * @throws TemplateError when the template is invalid.
+ */
+export function compileCommentTemplate(source: string) {
+  return compileTemplate(source, COMMENT_TEMPLATE_FIELDS);
+}
+
+/**
+ * Creates the description wrapper block holding the task description as a Logseq block tree.
+ *
+ * @param task Todoist task whose description is rendered.
+ * @param render Render settings; nothing is built unless description blocks are enabled.
+ */
+function buildDescriptionBlocks(task: TodoistBackupTask, render: BlockRenderContext): IBatchBlock[] {
+  if (!render.descriptionBlocks) {
+    return [];
+  }
+  const children = markdownToBlocks(task.description);
+  if (children.length === 0) {
+    return [];
+  }
+  return [
+    {
+      content: ["description...", `${TODOIST_DESCRIPTION_PROPERTY}:: ${children.length}`].join("\n"),
+      children,
+    },
+  ];
 }
 
 /**
  * Creates child blocks containing Todoist comments for a task.
  *
  * @param task Todoist task enriched with comment data.
+ * @param render Render settings carrying the optional comment template.
+ */
+function buildCommentBlocks(task: TodoistBackupTask, render: BlockRenderContext): CommentWrapperBlock[] {
+  return buildCommentWrapper(
+    task.comments ?? [],
+    (comment) => buildCommentUrl(task, comment),
+    render.commentTemplate
+  );
+}
+
+/**
+ * Wraps comments, oldest first, in a comments wrapper block.
+ *
+ * @param comments Task or project comments.
+ * @param urlFor Builds the Todoist link of a comment.
+ * @param template User template for the comment blocks, when configured.
  */
-function buildCommentBlocks(task: TodoistBackupTask): CommentWrapperBlock[] {
-  const comments = task.comments ?? [];
+function buildCommentWrapper<T extends CommentFields>(
+  comments: T[],
+  urlFor: (comment: T) => string,
+  template?: BlockTemplate
+): CommentWrapperBlock[] {
   if (comments.length === 0) {
     return [];
   }
@@ -367,7 +2162,7 @@ function buildCommentBlocks(task: TodoistBackupTask): CommentWrapperBlock[] {
   const wrapper: CommentWrapperBlock = {
     content: buildCommentWrapperContent(sorted.length),
     children: sorted.map((comment) => ({
-      content: commentContent(task, comment),
+      content: commentContent(urlFor(comment), comment, template),
     })),
   };
 
@@ -386,15 +2181,26 @@ function buildCommentWrapperContent(commentCount: number) {
 /**
  * Builds the markdown content for a single Todoist comment block.
  *
- * @param task Owning Todoist task used to resolve fallback ids.
+ * @param url Direct link to the comment in Todoist.
  * @param comment Comment information returned from Todoist.
+ * @param template User template replacing the built-in layout, when configured.
  */
-function commentContent(task: TodoistBackupTask, comment: TodoistComment) {
+function commentContent(url: string, comment: CommentFields, template?: BlockTemplate) {
   const sanitizedText = safeText(comment.content);
   const formattedText = sanitizedText ? safeLinkText(sanitizedText) : "";
-  const url = buildCommentUrl(task, comment);
+  const attachment = attachmentMarkup(comment);
+  if (template) {
+    return renderTemplate(template, {
+      id: String(comment.id),
+      url,
+      text: formattedText,
+      attachment,
+      posted: comment.posted_at ? formatCommentTimestamp(comment.posted_at) : "",
+    });
+  }
+
   const prefix = `[todoist](${url})`;
-  const commentLine = formattedText ? `${prefix} ${formattedText}` : prefix;
+  const commentLine = [prefix, formattedText, attachment].filter(Boolean).join(" ");
   const lines = [commentLine, `${TODOIST_COMMENT_ID_PROPERTY}:: ${comment.id}`];
   if (comment.posted_at) {
     const formatted = formatCommentTimestamp(comment.posted_at);
@@ -403,6 +2209,23 @@ function commentContent(task: TodoistBackupTask, comment: TodoistComment) {
   return lines.join("\n");
 }
 
+/**
+ * Renders a comment attachment as an image embed or file link.
+ * Downloaded files point to their Logseq asset; others link to the Todoist file URL.
+ *
+ * @param comment Comment possibly carrying a file attachment.
+ */
+function attachmentMarkup(comment: CommentFields) {
+  const attachment = comment.attachment;
+  const target = comment.asset_path ?? attachment?.file_url;
+  if (!attachment || !target) {
+    return "";
+  }
+  const name = (attachment.file_name ?? "attachment").replace(/[[\]]/g, "");
+  const isImage = Boolean(attachment.file_type?.startsWith("image/"));
+  return comment.asset_path && isImage ? `![${name}](${target})` : `[${name}](${target})`;
+}
+
 /**
  * Composes a direct Todoist URL pointing to a specific comment.
  *
@@ -434,13 +2257,39 @@ function formatCommentTimestamp(value: string) {
  * @param children Prepared comment blocks to insert.
  */
 async function syncComments(parentUuid: string, children: IBatchBlock[]) {
+  await replaceWrapperBlocks(parentUuid, children, isCommentWrapper);
+}
+
+/**
+ * Synchronizes the description wrapper block for a given parent block.
+ * Removes a stale wrapper when the description is now empty or rendered as a property.
+ *
+ * @param parentUuid Parent block uuid receiving the description child.
+ * @param children Prepared description blocks to insert.
+ */
+async function syncDescription(parentUuid: string, children: IBatchBlock[]) {
+  await replaceWrapperBlocks(parentUuid, children, isDescriptionWrapper);
+}
+
+/**
+ * Replaces the managed wrapper children of a block with freshly built ones.
+ *
+ * @param parentUuid Parent block uuid.
+ * @param children Prepared wrapper blocks to insert.
+ * @param isWrapper Detects existing wrappers of the same kind.
+ */
+async function replaceWrapperBlocks(
+  parentUuid: string,
+  children: IBatchBlock[],
+  isWrapper: (content: string) => boolean
+) {
   const existing = await logseq.Editor.getBlock(parentUuid, { includeChildren: true });
   if (existing && existing.children) {
     for (const child of existing.children) {
       if (!isBlockEntity(child)) {
         continue;
       }
-      if (isCommentWrapper(child.content ?? "")) {
+      if (isWrapper(child.content ?? "")) {
         await logseq.Editor.removeBlock(child.uuid);
       }
     }
@@ -467,6 +2316,13 @@ function isCommentWrapper(content: string) {
   return new RegExp(`(?:^|\n)${TODOIST_COMMENTS_PROPERTY}::`, "m").test(content);
 }
 
+/**
+ * Detects blocks representing the Todoist description wrapper.
+ */
+function isDescriptionWrapper(content: string) {
+  return new RegExp(`(?:^|\n)${TODOIST_DESCRIPTION_PROPERTY}::`, "m").test(content);
+}
+
 /**
  * Converts comment timestamps to sortable numeric values.
  */
@@ -501,6 +2357,148 @@ function resolvePrimaryDate(task: TodoistBackupTask) {
   return "";
 }
 
+/**
+ * Joins label names into space-separated `#tags`.
+ *
+ * @param labels Label names of a task.
+ */
+function formatLabelTags(labels: string[]) {
+  return labels
+    .map((label) => {
+      const tag = formatLabelTag(label);
+      return tag.startsWith("#") ? tag : `#${tag}`;
+    })
+    .filter((value) => value.length > 0)
+    .join(" ");
+}
+
+/**
+ * Converts Todoist's API priority (4 = urgent) into the `p1`-`p4` labels shown in the app.
+ */
+function formatPriority(priority: number | null | undefined) {
+  const value = Number(priority);
+  if (!Number.isInteger(value) || value < 1 || value > 4) {
+    return "";
+  }
+  return `p${5 - value}`;
+}
+
+/**
+ * Maps Todoist priorities p1-p3 to Logseq priority markers; p4 (normal) has none.
+ */
+function resolvePriorityMarker(priority: number | null | undefined) {
+  switch (formatPriority(priority)) {
+    case "p1":
+      return "[#A]";
+    case "p2":
+      return "[#B]";
+    case "p3":
+      return "[#C]";
+    default:
+      return "";
+  }
+}
+
+/**
+ * Formats a Todoist deadline as `YYYY-MM-DD` when valid.
+ */
+function formatDeadline(deadline: TodoistDeadline | null | undefined) {
+  const date = deadline?.date ? safeText(deadline.date) : "";
+  return ISO_DATE_PATTERN.test(date) ? date : "";
+}
+
+/**
+ * Picks the Logseq task marker of a task: `DONE` once completed, the workflow's open marker otherwise.
+ */
+function resolveTaskMarker(task: TodoistBackupTask, render: BlockRenderContext) {
+  return task.completed ? "DONE" : render.openMarker ?? "TODO";
+}
+
+/**
+ * Builds the Logseq planning timestamp of a Todoist due date, e.g. `<2025-02-14 Fri 09:30 ++1w>`.
+ * Times with a timezone are shown in local time; floating times are kept as written.
+ *
+ * @param due Todoist due date.
+ */
+function formatDueTimestamp(due: TodoistDue | null | undefined) {
+  if (!due) {
+    return "";
+  }
+
+  let date = "";
+  let time = "";
+  const datetime = due.datetime ?? (due.date?.includes("T") ? due.date : undefined);
+  if (datetime && /(?:Z|[+-]\d{2}:?\d{2})$/.test(datetime)) {
+    const parsed = new Date(datetime);
+    if (!Number.isNaN(parsed.getTime())) {
+      date = formatLocalDate(parsed);
+      time = `${String(parsed.getHours()).padStart(2, "0")}:${String(parsed.getMinutes()).padStart(2, "0")}`;
+    }
+  } else if (datetime) {
+    [, date = "", time = ""] = datetime.match(/^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2})/) ?? [];
+  }
+  date ||= formatDue(due);
+  if (!ISO_DATE_PATTERN.test(date)) {
+    return "";
+  }
+  return formatPlanningTimestamp(date, time, due.is_recurring ? formatRepeater(due.string ?? "") : "");
+}
+
+/**
+ * Formats a Logseq planning timestamp such as `<2025-02-14 Fri>`.
+ *
+ * @param date Day in `YYYY-MM-DD` form.
+ * @param time Optional `HH:MM` time.
+ * @param repeater Optional Logseq repeater such as `++1w`.
+ */
+function formatPlanningTimestamp(date: string, time = "", repeater = "") {
+  const [year, month, day] = date.split("-").map(Number);
+  const weekday = DAY_NAMES[new Date(Date.UTC(year, month - 1, day)).getUTCDay()].slice(0, 3);
+  return `<${[date, weekday, time, repeater].filter(Boolean).join(" ")}>`;
+}
+
+/**
+ * Translates the English Todoist recurrence text into a Logseq repeater: `every` becomes
+ * `++` (next future date) and `every!`/`after` become `.+` (from completion). Weekdays
+ * repeat weekly and days of the month monthly; other patterns get no repeater.
+ *
+ * @param recurrence Todoist `due.string`, e.g. `every 2 weeks`.
+ */
+function formatRepeater(recurrence: string) {
+  const text = recurrence.trim().toLowerCase();
+  const shorthand = REPEATER_SHORTHANDS[text.split(/\s+/)[0]];
+  if (shorthand) {
+    return `++1${shorthand}`;
+  }
+
+  const match = text.match(/^(every!?|after)\s+(?:(\d+|other)\s+)?([a-z]+|\d+(?:st|nd|rd|th))\b/);
+  if (!match) {
+    return "";
+  }
+  const kind = match[1] === "every" ? "++" : ".+";
+  const count = match[2] === "other" ? 2 : Number(match[2] ?? 1);
+  const word = match[3].replace(/s$/, "");
+  let unit = REPEATER_UNITS[word];
+  if (!unit && DAY_NAMES.some((name) => name.toLowerCase().startsWith(word) && word.length >= 3)) {
+    unit = "w";
+  } else if (!unit && /^\d+(?:st|nd|rd|th)$/.test(word)) {
+    unit = "m";
+  }
+  return unit && count > 0 ? `${kind}${count}${unit}` : "";
+}
+
+/**
+ * Formats a Todoist duration as `<amount> minutes` or `<amount> days`.
+ */
+function formatDuration(duration: TodoistDuration | null | undefined) {
+  const amount = Number(duration?.amount);
+  if (!duration || !Number.isFinite(amount) || amount <= 0) {
+    return "";
+  }
+  const unit = duration.unit === "day" ? "day" : "minute";
+  return `${amount} ${unit}${amount === 1 ? "" : "s"}`;
+}
+
 /**
  * Builds the property value for the Todoist due date when available.
  */
@@ -512,6 +2510,16 @@ function resolveDuePropertyValue(task: TodoistBackupTask) {
   return undefined;
 }
 
+/**
+ * Formats a date as `YYYY-MM-DD` in the local timezone, matching Logseq journal days.
+ */
+function formatLocalDate(date: Date) {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
 /**
  * Formats Todoist completion dates to `YYYY-MM-DD` when valid.
  */
@@ -527,25 +2535,136 @@ function formatCompletedDate(value: string | null | undefined) {
 }
 
 /**
- * Extracts the Todoist task identifier from block content.
+ * Extracts the Todoist task identifier from block content, unwrapping the `[id](url)` link.
  */
 export function extractTodoistId(content: string) {
   const match = content.match(new RegExp(`^${TODOIST_ID_PROPERTY}::\\s*(.+)$`, "mi"));
-  return match ? match[1].trim() : undefined;
+  if (!match) {
+    return undefined;
+  }
+  const value = match[1].trim();
+  const link = value.match(/^\[([^\]]+)\]\(/);
+  return link ? link[1].trim() : value;
+}
+
+/**
+ * Reads the `todoist-account::` tag of a block; untagged blocks belong to the default account.
+ */
+export function extractTodoistAccount(content: string) {
+  return content.match(new RegExp(`^${TODOIST_ACCOUNT_PROPERTY}::\\s*(.+)$`, "mi"))?.[1]?.trim() || undefined;
+}
+
+/**
+ * Appends the `todoist-account::` tag to block content unless it is already there.
+ *
+ * @param content Rendered block content.
+ * @param account Account name; the default account is left untagged.
+ */
+function tagAccount(content: string, account: string | undefined) {
+  if (!account || extractTodoistAccount(content) === account) {
+    return content;
+  }
+  return `${content}\n${TODOIST_ACCOUNT_PROPERTY}:: ${account}`;
 }
 
 /**
  * Reads the persisted Todoist status property from block content.
+ * Recognizes both raw status names and the configured display aliases.
  */
-function extractTodoistStatus(content: string): TodoistBackupTask["status"] | undefined {
+function extractTodoistStatus(
+  content: string,
+  statusAliases?: StatusAliases
+): TodoistBackupTask["status"] | undefined {
   const match = content.match(new RegExp(`^${TODOIST_STATUS_PROPERTY}::\\s*(.+)$`, "mi"));
-  const value = match ? match[1].trim().toLowerCase() : undefined;
+  const raw = match ? match[1].trim() : undefined;
+  if (!raw) {
+    return undefined;
+  }
+  const value = raw.toLowerCase();
   if (value === "active" || value === "completed" || value === "deleted") {
     return value;
   }
+  if (statusAliases) {
+    if (raw === statusAliases.completed) return "completed";
+    if (raw === statusAliases.deleted) return "deleted";
+    if (raw === statusAliases.active) return "active";
+  }
   return undefined;
 }
 
+/**
+ * Resolves the completion state a user expressed on a task block.
+ * A Logseq task marker wins over the `todoist-status::` property.
+ *
+ * @param block Block content and parsed marker.
+ * @param statusAliases Configured status alias mappings.
+ */
+export function resolveBlockTaskState(
+  block: Pick<BlockEntity, "content" | "marker">,
+  statusAliases: StatusAliases
+): "active" | "completed" | undefined {
+  const marker = typeof block.marker === "string" ? block.marker.toUpperCase() : "";
+  if (marker === "DONE") {
+    return "completed";
+  }
+  if (marker === "TODO" || marker === "LATER" || marker === "NOW" || marker === "DOING") {
+    return "active";
+  }
+
+  const status = extractTodoistStatus(block.content ?? "", statusAliases);
+  return status === "active" || status === "completed" ? status : undefined;
+}
+
+/**
+ * Determines whether a task block must survive cleanup because it records a completion
+ * or belongs to an archived project.
+ */
+function isPreservedBlock(content: string, retirement: RetirementContext) {
+  const status = extractTodoistStatus(content, retirement.statusAliases);
+  if (status === "completed" || belongsToArchivedProject(content, retirement.archivedProjects)) {
+    return true;
+  }
+  return !status && hasCompletedProperty(content);
+}
+
+/**
+ * Checks whether a block's `todoist-project::` points at an archived project.
+ *
+ * @param content Block content.
+ * @param archivedProjects Match keys of archived project names.
+ */
+function belongsToArchivedProject(content: string, archivedProjects: Set<string>) {
+  if (archivedProjects.size === 0) {
+    return false;
+  }
+  const match = content.match(/^todoist-project::\s*(.+)$/m);
+  const reference = match ? parseProjectReference(match[1]).replace(PROJECT_PAGE_PATTERN, "") : "";
+  return Boolean(reference) && archivedProjects.has(projectMatchKey(reference));
+}
+
+/**
+ * Normalizes a project name so `#tag` and project page references compare equal.
+ */
+function projectMatchKey(projectName: string) {
+  return safeText(projectName).replace(/\//g, "-").toLowerCase();
+}
+
+/**
+ * Checks whether a block was marked as deleted by a previous sync.
+ */
+function isDeletedBlock(content: string) {
+  return new RegExp(`^${TODOIST_DELETED_PROPERTY}::`, "mi").test(content);
+}
+
+/**
+ * Reads the `YYYY-MM-DD` date stored in the Todoist deleted property.
+ */
+function extractDeletedDate(content: string) {
+  const match = content.match(new RegExp(`^${TODOIST_DELETED_PROPERTY}::\\s*(.+)$`, "mi"));
+  const value = match ? sanitizeDueValue(match[1]) : "";
+  return ISO_DATE_PATTERN.test(value) ? value : undefined;
+}
+
 /**
  * Checks whether a block contains the Todoist completion property.
  */
@@ -587,7 +2706,8 @@ function applyDueFallback(content: string, dueValue: string) {
     lines[existingDueIndex] = dueLine;
   } else {
     const projectIndex = lines.findIndex((line) => line.startsWith("todoist-project::"));
-    const insertIndex = projectIndex !== -1 ? projectIndex + 1 : 1;
+    const planningCount = lines.slice(1).findIndex((line) => !/^(?:SCHEDULED|DEADLINE):/.test(line));
+    const insertIndex = projectIndex !== -1 ? projectIndex + 1 : 1 + (planningCount === -1 ? lines.length - 1 : planningCount);
     lines.splice(insertIndex, 0, dueLine);
   }
 
@@ -619,20 +2739,207 @@ function hasDueProperty(content: string) {
 }
 
 /**
- * Builds a map of Todoist ids to existing Logseq block entities.
+ * Reads every task block on the backup pages and journal sections back into task records.
+ *
+ * @param pagePrefix Base page name prefix.
+ * @param account Account whose blocks are read; undefined for the default account.
  */
-export function buildBlockMap(tree: BlockEntity[]) {
-  const map = new Map<string, BlockEntity>();
-  for (const block of tree) {
-    const content = block.content ?? "";
-    const id = extractTodoistId(content);
-    if (id) {
-      map.set(id, block);
+export async function readBackupTasks(pagePrefix: string, account?: string): Promise<BackupTaskRecord[]> {
+  const records = new Map<string, BackupTaskRecord>();
+
+  for (const page of await listTaskPages(pagePrefix)) {
+    const pageName = page.originalName ?? page.name;
+    const { blocks } = await readTaskArea(page, pagePrefix);
+    for (const [todoistId, block] of buildBlockMap(blocks, account).entries()) {
+      if (!records.has(todoistId)) {
+        records.set(todoistId, parseBackupBlock(todoistId, block, pageName));
+      }
+    }
+  }
+
+  return [...records.values()];
+}
+
+/**
+ * Reconstructs task fields from the properties and children written by `blockContent`.
+ *
+ * @param todoistId Id stored in the block's `todoist-id::`.
+ * @param block Task block including its children.
+ * @param pageName Page the block lives on.
+ */
+function parseBackupBlock(todoistId: string, block: BlockEntity, pageName: string): BackupTaskRecord {
+  const content = block.content ?? "";
+  const [firstLine = ""] = content.split("\n");
+  const readProperty = (name: string) =>
+    content.match(new RegExp(`^${name}::\\s*(.+)$`, "mi"))?.[1]?.trim() ?? "";
+
+  const heading = firstLine
+    .replace(/^(?:TODO|DOING|DONE|LATER|NOW|CANCELED|CANCELLED)\s+/, "")
+    .replace(/^\[\[[^\]]*\]\]\s*/, "")
+    .replace(/^\[#[ABC]\]\s*/, "");
+  const { text: title, tags } = extractLogseqTags(heading);
+  const labels = [...tags];
+  for (const tag of extractLogseqTags(readProperty("todoist-labels")).tags) {
+    if (!labels.includes(tag)) {
+      labels.push(tag);
     }
   }
+
+  const priorityMatch = readProperty(TODOIST_PRIORITY_PROPERTY).match(/^p([1-4])$/);
+  const children = (block.children ?? []).filter(isBlockEntity);
+  const descriptionWrapper = children.find((child) => isDescriptionWrapper(child.content ?? ""));
+  const commentWrapper = children.find((child) => isCommentWrapper(child.content ?? ""));
+
+  return {
+    id: todoistId,
+    uuid: block.uuid,
+    pageName,
+    title: safeText(title),
+    projectName:
+      parseProjectReference(readProperty("todoist-project"))
+        .replace(PROJECT_PAGE_PATTERN, "")
+        .replace(PROJECT_PAGE_ID_SUFFIX, "") || undefined,
+    labels,
+    due: extractTodoistDue(content) || undefined,
+    recurrence: readProperty(TODOIST_RECURRENCE_PROPERTY) || undefined,
+    priority: priorityMatch ? 5 - Number(priorityMatch[1]) : undefined,
+    description: descriptionWrapper
+      ? blocksToMarkdown((descriptionWrapper.children ?? []).filter(isBlockEntity))
+      : readProperty("todoist-desc"),
+    comments: (commentWrapper?.children ?? []).filter(isBlockEntity).map(parseCommentText).filter(Boolean),
+    completed: hasCompletedProperty(content),
+    deleted: isDeletedBlock(content),
+    account: extractTodoistAccount(content),
+  };
+}
+
+/**
+ * Reads the comment text from a comment block, dropping the `[todoist](url)` prefix and properties.
+ */
+function parseCommentText(block: BlockEntity) {
+  const [firstLine = ""] = (block.content ?? "").split("\n");
+  return firstLine.replace(/^\[todoist\]\([^)]*\)\s*/, "").trim();
+}
+
+/**
+ * Points a restored backup block at the newly created task and clears its deleted marker,
+ * so the next sync updates the block instead of writing a duplicate.
+ *
+ * @param uuid Backup block of the restored task.
+ * @param taskId Identifier of the recreated task.
+ * @param url Link to the recreated task.
+ */
+export async function relinkRestoredBlock(uuid: string, taskId: string, url: string) {
+  const block = await logseq.Editor.getBlock(uuid);
+  if (!block) {
+    return;
+  }
+  const idPattern = new RegExp(`^${TODOIST_ID_PROPERTY}::.*$`, "mi");
+  const deletedPattern = new RegExp(`^${TODOIST_DELETED_PROPERTY}::.*\n?`, "mi");
+  const content = (block.content ?? "")
+    .replace(idPattern, `${TODOIST_ID_PROPERTY}:: [${taskId}](${url})`)
+    .replace(deletedPattern, "");
+  await logseq.Editor.updateBlock(uuid, content);
+}
+
+/**
+ * Builds a map of Todoist ids to existing Logseq block entities, including nested subtasks.
+ * Task blocks tagged with another account are skipped along with their children.
+ *
+ * @param tree Blocks to search.
+ * @param account Account whose tasks are mapped; undefined for the default account.
+ */
+export function buildBlockMap(tree: Array<BlockEntity | BlockUUIDTuple>, account?: string) {
+  const map = new Map<string, BlockEntity>();
+  const visit = (blocks: Array<BlockEntity | BlockUUIDTuple>) => {
+    for (const block of blocks) {
+      if (!isBlockEntity(block)) {
+        continue;
+      }
+      const content = block.content ?? "";
+      const id = extractTodoistId(content);
+      if (id && extractTodoistAccount(content) !== account) {
+        continue;
+      }
+      if (id) {
+        map.set(id, block);
+      }
+      if (block.children && !isCommentWrapper(content) && !isDescriptionWrapper(content)) {
+        visit(block.children);
+      }
+    }
+  };
+  visit(tree);
+  return map;
+}
+
+/**
+ * Builds a map of group keys to existing project and section header blocks.
+ */
+function buildGroupMap(tree: Array<BlockEntity | BlockUUIDTuple>) {
+  const map = new Map<string, BlockEntity>();
+  const visit = (blocks: Array<BlockEntity | BlockUUIDTuple>) => {
+    for (const block of blocks) {
+      if (!isBlockEntity(block)) {
+        continue;
+      }
+      const key = extractGroupKey(block.content ?? "");
+      if (key) {
+        map.set(key, block);
+        visit(block.children ?? []);
+      }
+    }
+  };
+  visit(tree);
   return map;
 }
 
+/**
+ * Resolves the sanitized section name of a task when it belongs to a known section.
+ */
+function resolveSectionName(task: TodoistBackupTask, sectionMap: Map<string, string>) {
+  if (task.section_id === null || task.section_id === undefined) {
+    return "";
+  }
+  return safeLinkText(sectionMap.get(String(task.section_id)) ?? "");
+}
+
+/**
+ * Resolves the project and optional section header a task is grouped under.
+ *
+ * @param task Todoist task being grouped.
+ * @param render Project and section lookups.
+ */
+function resolveTaskGroups(task: TodoistBackupTask, render: BlockRenderContext) {
+  const projectId = String(task.project_id ?? "");
+  const project: TaskGroup = {
+    key: `project-${projectId || "inbox"}`,
+    name: safeLinkText(render.projectMap.get(projectId) ?? "") || "Inbox",
+  };
+
+  const sectionName = resolveSectionName(task, render.sectionMap);
+  const section: TaskGroup | undefined = sectionName
+    ? { key: `section-${task.section_id}`, name: sectionName }
+    : undefined;
+
+  return { project, section };
+}
+
+/**
+ * Builds the content of a project or section header block.
+ */
+function groupHeaderContent(group: TaskGroup) {
+  return [group.name, `${TODOIST_GROUP_PROPERTY}:: ${group.key}`].join("\n");
+}
+
+/**
+ * Reads the group key of a project or section header block.
+ */
+function extractGroupKey(content: string) {
+  const match = content.match(new RegExp(`^${TODOIST_GROUP_PROPERTY}::\\s*(.+)$`, "mi"));
+  return match ? match[1].trim() : undefined;
+}
+
 /**
  * Resolves label names for a task using the provided label map.
  */
@@ -0,0 +1,166 @@
+/**
+ * Loads task comments in bulk through the Sync API, with a per-graph cache.
+ */
+
+import { COMMENT_CACHE_MAX_AGE_DAYS } from "./constants";
+import { logDebug, logWarn } from "./logger";
+import { CachedTaskComments, CommentCache, readCommentCache, writeCommentCache } from "./storage";
+import {
+  fetchCommentChanges,
+  fetchTaskComments,
+  SyncTokenRejectedError,
+  TodoistBackupTask,
+  TodoistComment,
+  TodoistCommentChanges,
+  TodoistProjectComment,
+} from "./todoist";
+
+export type LoadedComments = {
+  tasks: Map<string, TodoistComment[]>;
+  projects: Map<string, TodoistProjectComment[]>;
+};
+
+/**
+ * Returns the comments of each task and of every project, keyed by task and project id.
+ * Comments of active tasks and projects come from incremental Sync API `notes` and
+ * `project_notes` changes; completed tasks, which the Sync API omits, are fetched one
+ * by one only when they or their comment count changed since their comments were cached.
+ *
+ * @param tasks Tasks whose comments are needed.
+ * @param token Todoist API token.
+ * @param account Account whose comment cache is used; undefined for the default account.
+ */
+export async function loadComments(
+  tasks: TodoistBackupTask[],
+  token: string,
+  account?: string
+): Promise<LoadedComments> {
+  const cache = await readCommentCache(account);
+
+  let changes: TodoistCommentChanges;
+  try {
+    changes = await fetchCommentChanges(token, cache.syncToken ?? "*");
+  } catch (error) {
+    if (!(error instanceof SyncTokenRejectedError)) {
+      throw error;
+    }
+    logWarn("comment sync token rejected, downloading all comments");
+    changes = await fetchCommentChanges(token, "*");
+  }
+  applyCommentChanges(cache, changes);
+
+  const now = new Date();
+  const stale = tasks.filter(
+    (task) => task.completed && isStaleComments(task, cache.fetched.get(String(task.id)), now)
+  );
+  const fetched = await fetchTaskComments(
+    stale.map((task) => task.id),
+    token
+  );
+  for (const task of stale) {
+    const comments = fetched.get(String(task.id));
+    // Failed requests stay uncached so the next sync retries them
+    if (comments) {
+      cache.fetched.set(String(task.id), { version: commentVersion(task), comments, fetchedAt: now.toISOString() });
+    }
+  }
+
+  const result = new Map<string, TodoistComment[]>();
+  for (const task of tasks) {
+    const id = String(task.id);
+    const comments = task.completed
+      ? cache.fetched.get(id)?.comments ?? cache.synced.get(id)
+      : cache.synced.get(id);
+    result.set(id, comments ?? []);
+  }
+
+  await writeCommentCache(cache, account);
+  logDebug("comments_loaded", {
+    tasks: tasks.length,
+    fullSync: changes.fullSync,
+    changed: changes.comments.length,
+    fetchedPerTask: stale.length,
+    projects: cache.projects.size,
+  });
+  return { tasks: result, projects: cache.projects };
+}
+
+/**
+ * Applies Sync API comment changes to the cached comments of active tasks and projects.
+ *
+ * @param cache Cache updated in place.
+ * @param changes Comments added, updated, or deleted since the cached token.
+ */
+function applyCommentChanges(cache: CommentCache, changes: TodoistCommentChanges) {
+  if (changes.fullSync) {
+    cache.synced = new Map();
+    cache.projects = new Map();
+  }
+
+  upsertComments(cache.synced, changes.comments, changes.deletedCommentIds, (comment) => comment.task_id);
+  upsertComments(
+    cache.projects,
+    changes.projectComments,
+    changes.deletedProjectCommentIds,
+    (comment) => comment.project_id
+  );
+  cache.syncToken = changes.syncToken;
+}
+
+/**
+ * Replaces changed comments and drops deleted ones in a map of comments grouped by owner id.
+ *
+ * @param grouped Comments keyed by owning task or project id, updated in place.
+ * @param changed Comments added or edited.
+ * @param deletedIds Identifiers of deleted comments.
+ * @param ownerOf Reads the owning task or project id of a comment.
+ */
+function upsertComments<T extends { id: TodoistComment["id"] }>(
+  grouped: Map<string, T[]>,
+  changed: T[],
+  deletedIds: string[],
+  ownerOf: (comment: T) => TodoistComment["id"]
+) {
+  const removed = new Set([...deletedIds, ...changed.map((comment) => String(comment.id))]);
+  if (removed.size > 0) {
+    for (const [ownerId, comments] of grouped.entries()) {
+      const kept = comments.filter((comment) => !removed.has(String(comment.id)));
+      if (kept.length !== comments.length) {
+        grouped.set(ownerId, kept);
+      }
+    }
+  }
+
+  for (const comment of changed) {
+    const ownerId = String(ownerOf(comment));
+    grouped.set(ownerId, [...(grouped.get(ownerId) ?? []), comment]);
+  }
+}
+
+/**
+ * Identifies the state of a completed task whose cached comments are still valid.
+ * The comment count changes when comments are added to or removed from a completed task.
+ */
+function commentVersion(task: TodoistBackupTask) {
+  return `${task.completed_at ?? task.updated_at ?? ""}|${task.note_count ?? ""}`;
+}
+
+/**
+ * Checks whether the cached comments of a completed task must be downloaded again.
+ * Without a comment count from Todoist, edits cannot be detected, so entries expire
+ * after `COMMENT_CACHE_MAX_AGE_DAYS`.
+ *
+ * @param task Completed task.
+ * @param cached Cached comments of the task, if any.
+ * @param now Time of the current sync.
+ */
+function isStaleComments(task: TodoistBackupTask, cached: CachedTaskComments | undefined, now: Date) {
+  if (!cached || cached.version !== commentVersion(task)) {
+    return true;
+  }
+  if (typeof task.note_count === "number") {
+    return false;
+  }
+  const fetchedAt = cached.fetchedAt ? Date.parse(cached.fetchedAt) : Number.NaN;
+  return !(now.getTime() - fetchedAt < COMMENT_CACHE_MAX_AGE_DAYS * 24 * 60 * 60 * 1000);
+}
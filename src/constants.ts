@@ -9,13 +9,93 @@ export const TOOLBAR_ICON_IMG_CLASS = "logseq-todoist-backup-icon-image";
 export const TODOIST_ID_PROPERTY = "todoist-id";
 export const TODOIST_COMPLETED_PROPERTY = "todoist-completed";
 export const TODOIST_STATUS_PROPERTY = "todoist-status";
+export const TODOIST_DELETED_PROPERTY = "todoist-deleted";
 export const TODOIST_DUE_PROPERTY = "todoist-due";
+export const TODOIST_PRIORITY_PROPERTY = "todoist-priority";
+export const TODOIST_DEADLINE_PROPERTY = "todoist-deadline";
+export const TODOIST_DURATION_PROPERTY = "todoist-duration";
+export const TODOIST_CREATED_PROPERTY = "todoist-created";
+export const TODOIST_PARENT_PROPERTY = "todoist-parent";
+export const TODOIST_PROJECT_ID_PROPERTY = "todoist-project-id";
+export const TODOIST_PROJECT_CHILDREN_PROPERTY = "todoist-subprojects";
+export const TODOIST_PROJECT_RENAMED_PROPERTY = "todoist-renamed-to";
+export const TODOIST_SECTION_PROPERTY = "todoist-section";
+export const TODOIST_GROUP_PROPERTY = "todoist-group";
+export const TODOIST_DESCRIPTION_PROPERTY = "todoist-description";
 export const TODOIST_COMMENTS_PROPERTY = "todoist-comments";
 export const TODOIST_COMMENT_ID_PROPERTY = "todoist-comment-id";
 export const TODOIST_COMMENT_POSTED_PROPERTY = "todoist-comment-posted";
 export const PLACEHOLDER_CONTENT = "No tasks found.";
 export const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
 export const BACKLOG_PAGE_SUFFIX = "Backlog";
+export const SINGLE_PAGE_SUFFIX = "All tasks";
+export const PAGE_LAYOUTS = ["date", "week", "month", "project", "project-section", "single", "journal"] as const;
+export const DEFAULT_JOURNAL_TITLE_FORMAT = "MMM do, yyyy";
+export const JOURNAL_SECTION_TITLE = "Todoist";
+export const TODOIST_JOURNAL_PROPERTY = "todoist-journal";
+export const TODOIST_ACCOUNT_PROPERTY = "todoist-account";
+export const ACCOUNT_NAME_PATTERN = /^[\w-]+$/;
+export const TASK_TEMPLATE_FIELDS = [
+  "id",
+  "url",
+  "title",
+  "date",
+  "due",
+  "project",
+  "section",
+  "labels",
+  "status",
+  "priority",
+  "priority_marker",
+  "recurrence",
+  "deadline",
+  "marker",
+  "due_timestamp",
+  "deadline_timestamp",
+  "duration",
+  "description",
+  "parent",
+  "completed",
+  "created",
+] as const;
+export const COMMENT_TEMPLATE_FIELDS = ["id", "url", "text", "attachment", "posted"] as const;
+export const PROJECT_PAGE_SEGMENT = "projects";
 export const DEFAULT_STATUS_ALIAS_ACTIVE = "◼️";
 export const DEFAULT_STATUS_ALIAS_COMPLETED = "✅";
 export const DEFAULT_STATUS_ALIAS_DELETED = "❌";
+export const SYNC_STATE_STORAGE_PREFIX = "sync-state";
+export const FULL_SYNC_COMMAND_KEY = "logseq-todoist-backup-full-sync";
+export const EXPORT_SNAPSHOT_COMMAND_KEY = "logseq-todoist-backup-export-snapshot";
+export const RESTORE_COMMAND_KEY = "logseq-todoist-backup-restore";
+export const RESTORE_DIALOG_KEY = "logseq-todoist-backup-restore-dialog";
+export const PREVIEW_COMMAND_KEY = "logseq-todoist-backup-preview";
+export const PREVIEW_DIALOG_KEY = "logseq-todoist-backup-preview-dialog";
+export const PREVIEW_MAX_CHANGES_PER_PAGE = 50;
+export const DIALOG_CLASS = "logseq-todoist-backup-dialog";
+export const TASK_SNAPSHOTS_STORAGE_PREFIX = "task-snapshots";
+export const ADOPTED_BLOCKS_STORAGE_PREFIX = "adopted-blocks";
+export const COMMENT_CACHE_STORAGE_PREFIX = "comment-cache";
+export const COMMENT_CACHE_MAX_AGE_DAYS = 7;
+export const ATTACHMENT_INDEX_STORAGE_PREFIX = "attachment-index";
+export const ATTACHMENT_ASSET_FOLDER = "todoist";
+export const SNAPSHOT_ASSET_FOLDER = "snapshots";
+export const SNAPSHOT_SCHEMA_VERSION = 2;
+export const REQUEST_TIMEOUT_MS = 30000;
+export const ATTACHMENT_TIMEOUT_MS = 120000;
+export const REQUEST_MAX_RETRIES = 4;
+export const REQUEST_MAX_CONCURRENCY = 4;
+export const REQUEST_BACKOFF_BASE_MS = 1000;
+export const REQUEST_BACKOFF_MAX_MS = 60000;
+export const COMPLETED_HISTORY_STORAGE_PREFIX = "completed-history";
+export const PAGE_LAYOUT_STORAGE_PREFIX = "page-layout";
+export const COMPLETED_HISTORY_WINDOW_DAYS = 30;
+export const COMPLETED_HISTORY_WINDOWS_PER_SYNC = 12;
+export const COMPLETED_HISTORY_FALLBACK_START = "2007-01-01T00:00:00Z";
+export const COMPLETED_HISTORY_MAX_EMPTY_WINDOWS = 12;
+export const TODOIST_RECURRENCE_PROPERTY = "todoist-recurrence";
+export const TODOIST_OCCURRENCE_PROPERTY = "todoist-occurrence";
+export const TODOIST_RECURRING_TASK_PROPERTY = "todoist-recurring-task";
+export const SYNC_LOG_PAGE_SUFFIX = "Sync Log";
+export const SYNC_LOG_RUN_PROPERTY = "todoist-sync-run";
+export const SYNC_LOG_MAX_ENTRIES = 50;
+export const SYNC_LOG_MAX_PAGE_LINKS = 20;
@@ -0,0 +1,121 @@
+/**
+ * Backfills the completed-task history in date windows and keeps it current afterwards.
+ */
+
+import {
+  COMPLETED_HISTORY_FALLBACK_START,
+  COMPLETED_HISTORY_MAX_EMPTY_WINDOWS,
+  COMPLETED_HISTORY_WINDOW_DAYS,
+  COMPLETED_HISTORY_WINDOWS_PER_SYNC,
+} from "./constants";
+import { logDebug, logWarn } from "./logger";
+import { CompletedHistoryState, readCompletedHistoryState } from "./storage";
+import { fetchAccountStart, fetchCompletedWindow, TodoistBackupTask } from "./todoist";
+
+export type CompletedHistory = {
+  tasks: TodoistBackupTask[];
+  /**
+   * Progress to persist once the tasks are written, so an interrupted sync resumes where it stopped.
+   */
+  nextState: CompletedHistoryState;
+};
+
+const WINDOW_MS = COMPLETED_HISTORY_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+
+/**
+ * Fetches completions newer than the stored checkpoint, then walks back through up to
+ * `COMPLETED_HISTORY_WINDOWS_PER_SYNC` older date windows until the account start is reached.
+ *
+ * @param token Todoist API token.
+ * @param account Account whose progress is read; undefined for the default account.
+ */
+export async function loadCompletedHistory(token: string, account?: string): Promise<CompletedHistory> {
+  const state = await readCompletedHistoryState(account);
+  const now = new Date();
+  const accountStart = new Date(
+    state.accountStart ?? (await fetchAccountStart(token)) ?? COMPLETED_HISTORY_FALLBACK_START
+  );
+  const tasks: TodoistBackupTask[] = [];
+
+  if (state.checkpoint) {
+    let since = new Date(state.checkpoint);
+    while (since < now) {
+      const until = new Date(Math.min(since.getTime() + WINDOW_MS, now.getTime()));
+      tasks.push(...(await fetchCompletedWindow(token, since, until)));
+      since = until;
+    }
+  }
+
+  let until = new Date(state.backfillUntil ?? now);
+  let windows = 0;
+  while (!state.complete && until > accountStart && windows < COMPLETED_HISTORY_WINDOWS_PER_SYNC) {
+    const since = new Date(Math.max(until.getTime() - WINDOW_MS, accountStart.getTime()));
+    tasks.push(...(await fetchCompletedWindow(token, since, until)));
+    until = since;
+    windows += 1;
+  }
+
+  const nextState: CompletedHistoryState = {
+    accountStart: accountStart.toISOString(),
+    backfillUntil: until.toISOString(),
+    complete: state.complete || until <= accountStart,
+    checkpoint: latestCompletion(tasks, state.checkpoint ?? now.toISOString()),
+  };
+
+  logDebug("completed_history_loaded", {
+    tasks: tasks.length,
+    windows,
+    backfillUntil: nextState.backfillUntil,
+    complete: nextState.complete,
+  });
+  return { tasks, nextState };
+}
+
+/**
+ * Fetches every completion from the account start until now in one go, without reading
+ * or advancing the stored backfill progress. Used where the whole history is needed at once.
+ * When Todoist does not report the account start, the walk stops after
+ * `COMPLETED_HISTORY_MAX_EMPTY_WINDOWS` windows in a row without completions.
+ *
+ * @param token Todoist API token.
+ */
+export async function loadFullCompletedHistory(token: string): Promise<TodoistBackupTask[]> {
+  const joinedAt = await fetchAccountStart(token);
+  if (!joinedAt) {
+    logWarn("account start unknown, walking the completed history until it runs dry", {
+      maxEmptyWindows: COMPLETED_HISTORY_MAX_EMPTY_WINDOWS,
+    });
+  }
+  const accountStart = new Date(joinedAt ?? COMPLETED_HISTORY_FALLBACK_START);
+  const tasks: TodoistBackupTask[] = [];
+  let until = new Date();
+  let windows = 0;
+  let emptyWindows = 0;
+  while (until > accountStart && (joinedAt || emptyWindows < COMPLETED_HISTORY_MAX_EMPTY_WINDOWS)) {
+    const since = new Date(Math.max(until.getTime() - WINDOW_MS, accountStart.getTime()));
+    const completed = await fetchCompletedWindow(token, since, until);
+    tasks.push(...completed);
+    emptyWindows = completed.length > 0 ? 0 : emptyWindows + 1;
+    until = since;
+    windows += 1;
+  }
+
+  logDebug("completed_history_full", { tasks: tasks.length, windows });
+  return tasks;
+}
+
+/**
+ * Returns the newest completion time among the tasks, or the fallback when none is newer.
+ *
+ * @param tasks Completed tasks fetched in this sync.
+ * @param fallback Checkpoint to keep when no newer completion was seen.
+ */
+function latestCompletion(tasks: TodoistBackupTask[], fallback: string) {
+  let latest = fallback;
+  for (const task of tasks) {
+    if (task.completed_at && Date.parse(task.completed_at) > Date.parse(latest)) {
+      latest = task.completed_at;
+    }
+  }
+  return latest;
+}
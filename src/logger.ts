@@ -6,6 +6,8 @@ import type { PluginSettings } from "./settings";
 
 const LOG_PREFIX = "[logseq-todoist-backup]";
 
+let loggedErrors = 0;
+
 /**
  * Checks if debug logging is enabled in plugin settings.
  */
@@ -53,6 +55,7 @@ export function logWarn(message: string, data?: unknown): void {
  * @param error Optional error object or additional context.
  */
 export function logError(message: string, error?: unknown): void {
+  loggedErrors += 1;
   if (error !== undefined) {
     console.error(LOG_PREFIX, message, error);
   } else {
@@ -73,3 +76,11 @@ export function logDebug(operation: string, data: Record<string, unknown>): void
   }
 }
 
+
+/**
+ * Returns how many errors were logged since the plugin loaded, so callers can count
+ * the errors of one operation by comparing two readings.
+ */
+export function countLoggedErrors(): number {
+  return loggedErrors;
+}
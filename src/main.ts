@@ -1,25 +1,127 @@
 import "@logseq/libs";
 
-import { writeBlocks } from "./blocks";
+import { storeCommentAttachments } from "./attachments";
+import { loadComments } from "./comments";
+import { loadCompletedHistory, loadFullCompletedHistory } from "./history";
 import {
+  BlockRenderContext,
+  buildProjectPageTitles,
+  writeBlocks,
+  WriteBlocksOptions,
+  writeProjectPages,
+  WriteStats,
+} from "./blocks";
+import {
+  applyResourceChanges,
   buildLabelMap,
   buildNameMap,
-  fetchTaskComments,
+  fetchArchivedCompletedTasks,
+  fetchArchivedProjects,
   fetchCompletedTasks,
   fetchPaginated,
+  fetchSyncChanges,
   mergeBackupTasks,
+  SyncTokenRejectedError,
   TodoistBackupTask,
   TodoistLabel,
   TodoistProject,
+  TodoistProjectComment,
+  TodoistSection,
+  TodoistSyncChanges,
   TodoistTask,
   safeText,
+  splitRecurringOccurrences,
 } from "./todoist";
-import { readSettings, settingsSchema } from "./settings";
-import { cancelScheduledSync, scheduleAutoSync } from "./scheduler";
-import { provideStyles, registerCommands, registerToolbar } from "./ui";
-import { logError, logInfo, logDebug } from "./logger";
+import { readSettings, readSettingsWithInterval, settingsSchema, TodoistAccount } from "./settings";
+import { cancelScheduledSync, isQuietTime, scheduleAutoSync } from "./scheduler";
+import {
+  clearCommentCache,
+  clearSyncState,
+  CompletedHistoryState,
+  readAdoptedBlocks,
+  readPageLayoutState,
+  readSyncState,
+  SyncState,
+  writeCompletedHistoryState,
+  writePageLayoutState,
+  writeSyncState,
+} from "./storage";
+import {
+  cancelRestore,
+  confirmRestore,
+  openRestoreDialog,
+  toggleAllRestoreCandidates,
+  toggleRestoreCandidate,
+} from "./restore";
+import { fingerprintSyncPlan, mergeSyncPlans, showSyncPreview, SyncPlan } from "./preview";
+import { readRequestCounters } from "./request";
+import { sendBlockAsTask } from "./send";
+import { buildSnapshot, writeSnapshotFile } from "./snapshot";
+import { appendSyncLog } from "./synclog";
+import { closePreviewDialog, provideStyles, registerBlockCommands, registerCommands, registerToolbar } from "./ui";
+import { recordTaskSnapshots, registerWriteBack } from "./writeback";
+import { countLoggedErrors, logError, logInfo, logDebug, logWarn } from "./logger";
 
 let syncInProgress = false;
+let pendingPreview: PendingPreview | undefined;
+
+type SyncOptions = {
+  fullSync?: boolean;
+  /**
+   * Account to sync; every configured account when omitted.
+   */
+  account?: TodoistAccount;
+  /**
+   * Confirmed preview whose prepared data is written instead of fetching again.
+   */
+  preview?: PendingPreview;
+};
+
+type SyncData = {
+  tasks: TodoistBackupTask[];
+  projects: TodoistProject[];
+  labels: TodoistLabel[];
+  sections: TodoistSection[];
+  incremental: boolean;
+  deletedTaskIds: string[];
+  occurrences: TodoistBackupTask[];
+  nextState?: SyncState;
+  nextHistoryState?: CompletedHistoryState;
+};
+
+type PreparedSync = {
+  account: TodoistAccount;
+  pageName: string;
+  data: SyncData;
+  /**
+   * Tasks left after title exclusions, with comments and attachments.
+   */
+  tasks: TodoistBackupTask[];
+  includeComments: boolean;
+  writeBack: boolean;
+  projectComments?: Map<string, TodoistProjectComment[]>;
+  render: BlockRenderContext;
+  writeOptions: WriteBlocksOptions;
+};
+
+type PreviewEntry = {
+  prepared: PreparedSync;
+  plan: SyncPlan;
+  fingerprint: string;
+};
+
+/**
+ * Previewed plans of every account, applied together once confirmed.
+ */
+type PendingPreview = {
+  entries: PreviewEntry[];
+};
+
+/**
+ * Completed tasks a full download includes: the latest completions, the windowed backfill
+ * that advances with each sync, or the whole history at once.
+ */
+type CompletedHistoryMode = "latest" | "backfill" | "full";
 
 type EditingState = {
   blockUuid: string;
@@ -79,28 +181,155 @@ async function restoreEditingState(state: EditingState | undefined) {
 }
 
 /**
- * Fetches Todoist comments and merges them into the provided task list.
+ * Fetches Todoist task and project comments and merges task comments into the provided task list.
  *
  * @param tasks Todoist tasks to enrich with comment data.
  * @param token Todoist API token used for authenticated requests.
+ * @param account Account whose comment cache is used; undefined for the default account.
  */
-async function enrichTasksWithComments(
-  tasks: TodoistBackupTask[],
-  token: string
-) {
-  if (tasks.length === 0) {
-    return tasks;
+async function enrichTasksWithComments(tasks: TodoistBackupTask[], token: string, account?: string) {
+  const comments = await loadComments(tasks, token, account);
+  return {
+    tasks: tasks.map((task) => ({
+      ...task,
+      comments: comments.tasks.get(String(task.id)) ?? [],
+    })),
+    projectComments: comments.projects,
+  };
+}
+
+/**
+ * Fetches completed tasks: the latest completions, the windowed history when backfill is enabled,
+ * or the entire history.
+ *
+ * @param token Todoist API token used for authenticated requests.
+ * @param mode Which completed tasks to fetch.
+ * @param account Account whose backfill progress is used; undefined for the default account.
+ */
+async function fetchCompletedHistory(
+  token: string,
+  mode: CompletedHistoryMode,
+  account?: string
+): Promise<{ tasks: TodoistBackupTask[]; nextState?: CompletedHistoryState }> {
+  switch (mode) {
+    case "backfill":
+      return loadCompletedHistory(token, account);
+    case "full":
+      return { tasks: await loadFullCompletedHistory(token) };
+    case "latest":
+      return { tasks: await fetchCompletedTasks(token) };
   }
+}
+
+/**
+ * Downloads every task, project, label, and section through the REST endpoints,
+ * including archived projects and their completed tasks.
+ *
+ * @param token Todoist API token used for authenticated requests.
+ * @param completedHistory Which completed tasks to include.
+ * @param account Account whose backfill progress is used; undefined for the default account.
+ */
+async function fetchFullData(
+  token: string,
+  completedHistory: CompletedHistoryMode = "latest",
+  account?: string
+): Promise<SyncData> {
+  const [tasks, history, activeProjects, archivedProjects, labels, sections] = await Promise.all([
+    fetchPaginated<TodoistTask>("/tasks", token),
+    fetchCompletedHistory(token, completedHistory, account),
+    fetchPaginated<TodoistProject>("/projects", token),
+    fetchArchivedProjects(token),
+    fetchPaginated<TodoistLabel>("/labels", token),
+    fetchPaginated<TodoistSection>("/sections", token),
+  ]);
+  const archivedTasks = await fetchArchivedCompletedTasks(token, archivedProjects);
+  const projects = [...activeProjects, ...archivedProjects];
+  const { completed, occurrences } = splitRecurringOccurrences(tasks, [...archivedTasks, ...history.tasks], true);
+
+  logDebug("fetch_completed", {
+    tasks: tasks.length,
+    completed: history.tasks.length,
+    archivedCompleted: archivedTasks.length,
+    occurrences: occurrences.length,
+    projects: activeProjects.length,
+    archivedProjects: archivedProjects.length,
+    labels: labels.length,
+    sections: sections.length,
+  });
+
+  return {
+    tasks: mergeBackupTasks(tasks, completed),
+    projects,
+    labels,
+    sections,
+    incremental: false,
+    deletedTaskIds: [],
+    occurrences,
+    nextHistoryState: history.nextState,
+  };
+}
 
-  const commentsMap = await fetchTaskComments(
-    tasks.map((task) => task.id),
-    token
+/**
+ * Downloads changes since the stored sync token, falling back to a full snapshot
+ * when no token is stored, Todoist rejects it, or a full sync was requested.
+ *
+ * @param token Todoist API token used for authenticated requests.
+ * @param fullSync Whether the stored sync token must be ignored.
+ * @param completedBackfill Whether the completed history is backfilled.
+ * @param account Account whose sync state is used; undefined for the default account.
+ */
+async function fetchIncrementalData(
+  token: string,
+  fullSync: boolean,
+  completedBackfill: boolean,
+  account?: string
+): Promise<SyncData> {
+  const state: SyncState = fullSync ? {} : await readSyncState(account);
+
+  let changes: TodoistSyncChanges;
+  try {
+    changes = await fetchSyncChanges(token, state.syncToken ?? "*");
+  } catch (error) {
+    if (!(error instanceof SyncTokenRejectedError)) {
+      throw error;
+    }
+    logWarn("sync token rejected, running full sync");
+    changes = await fetchSyncChanges(token, "*");
+  }
+
+  // The Sync API omits archived projects from full snapshots, so they are fetched separately
+  const archivedProjects = changes.fullSync ? await fetchArchivedProjects(token) : [];
+  const baseProjects = changes.fullSync ? archivedProjects : state.projects ?? [];
+  const baseLabels = changes.fullSync ? [] : state.labels ?? [];
+  const projects = applyResourceChanges(baseProjects, changes.projects, changes.deletedProjectIds);
+  const labels = applyResourceChanges(baseLabels, changes.labels, changes.deletedLabelIds);
+  const baseSections = changes.fullSync ? [] : state.sections ?? [];
+  const sections = applyResourceChanges(baseSections, changes.sections, changes.deletedSectionIds);
+
+  // The backfill keeps advancing on incremental syncs; the latest completions only matter for full snapshots
+  const history =
+    completedBackfill || changes.fullSync
+      ? await fetchCompletedHistory(token, completedBackfill ? "backfill" : "latest", account)
+      : undefined;
+  const archivedTasks = changes.fullSync ? await fetchArchivedCompletedTasks(token, archivedProjects) : [];
+  // Only a full snapshot lists every active task, so only then can a recurring task be known to have ended
+  const { completed, occurrences } = splitRecurringOccurrences(
+    changes.tasks,
+    [...archivedTasks, ...(history?.tasks ?? [])],
+    changes.fullSync
   );
 
-  return tasks.map((task) => ({
-    ...task,
-    comments: commentsMap.get(String(task.id)) ?? [],
-  }));
+  return {
+    tasks: mergeBackupTasks(changes.tasks, [...completed, ...changes.completed]),
+    projects,
+    labels,
+    sections,
+    incremental: !changes.fullSync,
+    deletedTaskIds: changes.deletedTaskIds,
+    occurrences,
+    nextState: { syncToken: changes.syncToken, projects, labels, sections },
+    nextHistoryState: history?.nextState,
+  };
 }
 
 const model = {
@@ -110,6 +339,48 @@ const model = {
   async syncTodoistBackup() {
     await syncTodoist("manual");
   },
+
+  /**
+   * Toggles a task in the restore dialog.
+   */
+  toggleRestoreTask(event: { dataset?: { taskId?: string } }) {
+    toggleRestoreCandidate(event.dataset?.taskId);
+  },
+
+  /**
+   * Selects or clears every task in the restore dialog.
+   */
+  toggleAllRestoreTasks() {
+    toggleAllRestoreCandidates();
+  },
+
+  /**
+   * Restores the tasks selected in the restore dialog.
+   */
+  async confirmRestore() {
+    await confirmRestore();
+  },
+
+  /**
+   * Closes the restore dialog.
+   */
+  cancelRestore() {
+    cancelRestore();
+  },
+
+  /**
+   * Applies the changes shown in the sync preview.
+   */
+  async confirmSyncPreview() {
+    await confirmSyncPreview();
+  },
+
+  /**
+   * Closes the sync preview without writing anything.
+   */
+  cancelSyncPreview() {
+    cancelSyncPreview();
+  },
 };
 
 /**
@@ -121,14 +392,48 @@ async function main() {
   provideStyles();
 
   const iconUrl = logseq.resolveResourceFullUrl("logo.png");
-  registerCommands(() => syncTodoist("manual"));
+  registerCommands({
+    onSync: () => syncTodoist("manual"),
+    onFullSync: () => syncTodoist("manual", { fullSync: true }),
+    onPreview: previewSync,
+    onExport: exportSnapshot,
+    onRestore: openRestoreDialog,
+  });
   registerToolbar(iconUrl);
-
-  logseq.onSettingsChanged(() => {
-    scheduleAutoSync((trigger) => syncTodoist(trigger));
+  registerBlockCommands(sendBlockAsTask);
+  registerWriteBack(() => syncInProgress);
+
+  const reschedule = () =>
+    scheduleAutoSync(
+      (trigger, account) => syncTodoist(trigger, { account }),
+      (nextRun) => registerToolbar(iconUrl, nextRun)
+    );
+
+  logseq.onSettingsChanged(reschedule);
+  logseq.App.onCurrentGraphChanged(() => {
+    void syncOnOpen("graph_switch");
   });
 
-  scheduleAutoSync((trigger) => syncTodoist(trigger));
+  reschedule();
+  await syncOnOpen("app_start");
+}
+
+/**
+ * Runs an automatic sync when Logseq starts or another graph opens, if enabled and outside quiet hours.
+ *
+ * @param reason Event that opened the graph, for logging.
+ */
+async function syncOnOpen(reason: "app_start" | "graph_switch") {
+  const { syncOnStart } = readSettingsWithInterval();
+  if (!syncOnStart) {
+    return;
+  }
+  if (isQuietTime()) {
+    logDebug("sync_on_open_skipped", { reason, quietHours: true });
+    return;
+  }
+  logDebug("sync_on_open", { reason });
+  await syncTodoist("auto");
 }
 
 /**
@@ -149,11 +454,14 @@ function registerLifecycle() {
 }
 
 /**
- * Synchronizes Todoist data with Logseq for manual and automatic triggers.
+ * Synchronizes Todoist data with Logseq for manual and automatic triggers, one account
+ * after another. A failing account does not stop the others.
  *
  * @param trigger Indicates whether the sync was initiated manually or automatically.
+ * @param options Set `fullSync` to discard the stored sync token and rebuild every block,
+ * `account` to sync a single account, or `preview` to write the data of a confirmed preview.
  */
-async function syncTodoist(trigger: "manual" | "auto") {
+async function syncTodoist(trigger: "manual" | "auto", options: SyncOptions = {}) {
   if (syncInProgress) {
     if (trigger === "manual") {
       await logseq.UI.showMsg("Sync already in progress", "warning");
@@ -161,8 +469,10 @@ async function syncTodoist(trigger: "manual" | "auto") {
     return;
   }
 
-  const { token, pageName, includeComments, excludePatterns, statusAliases } = readSettings();
-  if (!token) {
+  const accounts =
+    options.preview?.entries.map((entry) => entry.prepared.account) ??
+    (options.account ? [options.account] : readSettings().accounts);
+  if (accounts.length === 0) {
     if (trigger === "manual") {
       await logseq.UI.showMsg(
         "Configure the Todoist token in the plugin settings.",
@@ -172,6 +482,11 @@ async function syncTodoist(trigger: "manual" | "auto") {
     return;
   }
 
+  // A pending preview would apply data older than this sync
+  if (!options.preview) {
+    cancelSyncPreview();
+  }
+
   syncInProgress = true;
   if (trigger === "manual") {
     await logseq.UI.showMsg("Syncing Todoist data...", "info");
@@ -182,61 +497,352 @@ async function syncTodoist(trigger: "manual" | "auto") {
     editingState = await captureEditingState();
   }
 
+  const changedPreviews: PreviewEntry[] = [];
+  let synced = 0;
+  let failed = false;
   try {
-    const [tasks, completedTasks, projects, labels] = await Promise.all([
-      fetchPaginated<TodoistTask>("/tasks", token),
-      fetchCompletedTasks(token),
-      fetchPaginated<TodoistProject>("/projects", token),
-      fetchPaginated<TodoistLabel>("/labels", token),
-    ]);
+    for (const account of accounts) {
+      const preview = options.preview?.entries.find((entry) => entry.prepared.account === account);
+      const tasks = await syncAccount(trigger, account, Boolean(options.fullSync), preview, changedPreviews);
+      if (tasks === undefined) {
+        failed = true;
+      } else {
+        synced += tasks;
+      }
+    }
+  } finally {
+    syncInProgress = false;
+    if (trigger === "auto") {
+      await restoreEditingState(editingState);
+    }
+  }
 
-    const projectMap = buildNameMap(projects);
-    const labelMap = buildLabelMap(labels);
+  if (changedPreviews.length > 0) {
+    pendingPreview = { entries: changedPreviews };
+    showSyncPreview(
+      mergeSyncPlans(changedPreviews.map((entry) => entry.plan)),
+      "The graph changed since the preview. Review the updated changes."
+    );
+  }
+  if (failed) {
+    return;
+  }
+  if (trigger === "manual") {
+    await logseq.UI.showMsg(`Todoist backup synced (${synced} tasks).`, "success");
+  } else {
+    logInfo("automatic sync completed");
+  }
+}
 
-    logDebug("fetch_completed", {
-      tasks: tasks.length,
-      completed: completedTasks.length,
-      projects: projects.length,
-      labels: labels.length,
-    });
+/**
+ * Syncs one account and records the run on its sync log page.
+ *
+ * @param trigger Indicates whether the sync was initiated manually or automatically.
+ * @param account Account to sync.
+ * @param fullSync Whether the stored sync token and comment cache are discarded first.
+ * @param preview Confirmed preview of the account, written instead of fetching again.
+ * @param changedPreviews Receives the updated plan when the graph changed since the preview.
+ * @returns The number of tasks written, or undefined when the sync failed.
+ */
+async function syncAccount(
+  trigger: "manual" | "auto",
+  account: TodoistAccount,
+  fullSync: boolean,
+  preview: PreviewEntry | undefined,
+  changedPreviews: PreviewEntry[]
+): Promise<number | undefined> {
+  const { incrementalSync } = readSettings();
+  const startedAt = new Date();
+  const requestsBefore = readRequestCounters();
+  const errorsBefore = countLoggedErrors();
+  let mode: "full" | "incremental" = incrementalSync && !fullSync ? "incremental" : "full";
+  let fetched: number | undefined;
+  let stats: WriteStats | undefined;
+  let failure: string | undefined;
 
-    const backupTasks: TodoistBackupTask[] = mergeBackupTasks(tasks, completedTasks);
+  try {
+    if (fullSync) {
+      await clearSyncState(account.name);
+      await clearCommentCache(account.name);
+    }
 
-    const filteredTasks = applyTitleExclusions(backupTasks, excludePatterns);
+    const prepared = preview?.prepared ?? (await prepareSync(account, fullSync));
+    mode = prepared.data.incremental ? "incremental" : "full";
+    fetched = prepared.data.tasks.length;
 
-    if (filteredTasks.length < backupTasks.length) {
-      logInfo(`excluded ${backupTasks.length - filteredTasks.length} tasks by pattern`);
+    if (preview) {
+      // Only the reviewed plan may be applied, so the graph must not have changed since
+      const plan = await writePreparedSync(prepared, true);
+      if (fingerprintSyncPlan(plan) !== preview.fingerprint) {
+        changedPreviews.push({ prepared, plan, fingerprint: fingerprintSyncPlan(plan) });
+        throw new Error("the graph changed since the preview; nothing was written");
+      }
     }
 
-    const tasksForBlocks = includeComments
-      ? await enrichTasksWithComments(filteredTasks, token)
-      : filteredTasks;
+    const plan = await writePreparedSync(prepared, false);
+    stats = plan.stats;
+    for (const projectPage of plan.projectPages) {
+      stats.pages.add(projectPage);
+    }
+    return prepared.tasks.length;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    failure = message;
+    logError("failed to sync", { account: account.name, error });
+    const label = account.name ? ` (${account.name})` : "";
+    await logseq.UI.showMsg(`Failed to sync Todoist${label}: ${message}`, "error");
+    return undefined;
+  } finally {
+    const requestsAfter = readRequestCounters();
+    try {
+      await appendSyncLog(account.pageName, {
+        trigger,
+        mode,
+        startedAt,
+        durationMs: Date.now() - startedAt.getTime(),
+        fetched,
+        stats,
+        requests: {
+          requests: requestsAfter.requests - requestsBefore.requests,
+          retries: requestsAfter.retries - requestsBefore.retries,
+          failures: requestsAfter.failures - requestsBefore.failures,
+        },
+        errors: countLoggedErrors() - errorsBefore,
+        failure,
+      });
+    } catch (error) {
+      logError("failed to write the sync log", error);
+    }
+  }
+}
 
-    logDebug("write_blocks_start", {
-      page: pageName,
-      tasks: tasksForBlocks.length,
-      includeComments,
-    });
+/**
+ * Fetches Todoist data and prepares everything `writePreparedSync()` needs, without touching the graph.
+ *
+ * @param account Account whose data is fetched.
+ * @param fullSync Whether the stored sync token must be ignored.
+ */
+async function prepareSync(account: TodoistAccount, fullSync: boolean): Promise<PreparedSync> {
+  const { token, pageName, excludePatterns } = account;
+  const {
+    pageLayout,
+    includeComments,
+    downloadAttachments,
+    descriptionBlocks,
+    incrementalSync,
+    completedBackfill,
+    statusAliases,
+    purgeDeletedAfterDays,
+    groupBySection,
+    priorityMarkers,
+    taskMarkers,
+    taskTemplate,
+    commentTemplate,
+    writeBack,
+  } = readSettings();
+
+  const data = incrementalSync
+    ? await fetchIncrementalData(token, fullSync, completedBackfill, account.name)
+    : await fetchFullData(token, completedBackfill ? "backfill" : "latest", account.name);
+
+  const backupTasks = data.tasks;
+  const filteredTasks = applyTitleExclusions(backupTasks, excludePatterns);
+  const keptIds = new Set(filteredTasks.map((task) => String(task.id)));
+  const excludedTaskIds = backupTasks.map((task) => String(task.id)).filter((id) => !keptIds.has(id));
+
+  if (excludedTaskIds.length > 0) {
+    logInfo(`excluded ${excludedTaskIds.length} tasks by pattern`);
+  }
 
-    await writeBlocks(pageName, tasksForBlocks, projectMap, labelMap, statusAliases);
+  const comments = includeComments ? await enrichTasksWithComments(filteredTasks, token, account.name) : undefined;
+  const tasksWithComments = comments?.tasks ?? filteredTasks;
+  const tasks = downloadAttachments ? await storeCommentAttachments(tasksWithComments, token) : tasksWithComments;
+  const userConfigs = await logseq.App.getUserConfigs();
+
+  return {
+    account,
+    pageName,
+    data,
+    tasks,
+    includeComments,
+    writeBack,
+    projectComments: comments?.projectComments,
+    render: {
+      projectMap: buildNameMap(data.projects),
+      labelMap: buildLabelMap(data.labels),
+      sectionMap: buildNameMap(data.sections),
+      statusAliases,
+      priorityMarkers,
+      taskMarkers,
+      openMarker: userConfigs.preferredWorkflow === "now" ? "LATER" : "TODO",
+      descriptionBlocks,
+      projectPagePrefix: pageName,
+      projectPageTitles: buildProjectPageTitles(data.projects),
+      account: account.name,
+      taskTemplate,
+      commentTemplate,
+    },
+    writeOptions: {
+      incremental: data.incremental,
+      deletedTaskIds: data.deletedTaskIds,
+      purgeDeletedAfterDays,
+      groupBySection,
+      adoptedBlocks: await readAdoptedBlocks(account.name),
+      occurrences: data.occurrences,
+      archivedProjectIds: data.projects.filter((project) => project.is_archived).map((project) => String(project.id)),
+      excludedTaskIds,
+      pageLayout,
+      journalTitleFormat: pageLayout === "journal" ? userConfigs.preferredDateFormat : undefined,
+      migrateLayout: (await readPageLayoutState(account.name)) !== pageLayout,
+    },
+  };
+}
 
-    if (trigger === "manual") {
-      await logseq.UI.showMsg(
-        `Todoist backup synced (${tasksForBlocks.length} tasks).`,
-        "success"
-      );
-    } else {
-      logInfo("automatic sync completed");
+/**
+ * Writes prepared data to the graph and saves the sync progress, or with `dryRun` only
+ * records the changes that writing would make.
+ *
+ * @param prepared Data returned by `prepareSync()`.
+ * @param dryRun Whether to leave the graph and the stored sync state untouched.
+ */
+async function writePreparedSync(prepared: PreparedSync, dryRun: boolean): Promise<SyncPlan> {
+  const { account, pageName, data, tasks } = prepared;
+  logDebug("write_blocks_start", {
+    account: account.name,
+    page: pageName,
+    tasks: tasks.length,
+    includeComments: prepared.includeComments,
+    incremental: data.incremental,
+    deleted: data.deletedTaskIds.length,
+    dryRun,
+  });
+
+  const projectPages = await writeProjectPages(pageName, data.projects, prepared.projectComments, dryRun);
+  const stats = await writeBlocks(pageName, tasks, prepared.render, { ...prepared.writeOptions, dryRun });
+  if (dryRun) {
+    return { stats, projectPages };
+  }
+
+  if (prepared.writeBack) {
+    await recordTaskSnapshots(tasks, data.incremental, data.deletedTaskIds, account.name);
+  }
+
+  if (data.nextState) {
+    await writeSyncState(data.nextState, account.name);
+  }
+  if (data.nextHistoryState) {
+    await writeCompletedHistoryState(data.nextHistoryState, account.name);
+  }
+  if (prepared.writeOptions.migrateLayout && prepared.writeOptions.pageLayout) {
+    await writePageLayoutState(prepared.writeOptions.pageLayout, account.name);
+  }
+  return { stats, projectPages };
+}
+
+/**
+ * Fetches Todoist data of every account, computes the changes a sync would make, and shows them for confirmation.
+ */
+async function previewSync() {
+  if (syncInProgress) {
+    await logseq.UI.showMsg("Sync already in progress", "warning");
+    return;
+  }
+  const { accounts } = readSettings();
+  if (accounts.length === 0) {
+    await logseq.UI.showMsg("Configure the Todoist token in the plugin settings.", "warning");
+    return;
+  }
+
+  cancelSyncPreview();
+  syncInProgress = true;
+  await logseq.UI.showMsg("Computing the Todoist sync preview...", "info");
+  try {
+    const entries: PreviewEntry[] = [];
+    for (const account of accounts) {
+      const prepared = await prepareSync(account, false);
+      const plan = await writePreparedSync(prepared, true);
+      entries.push({ prepared, plan, fingerprint: fingerprintSyncPlan(plan) });
     }
+    pendingPreview = { entries };
+    showSyncPreview(mergeSyncPlans(entries.map((entry) => entry.plan)));
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
-    logError("failed to sync", error);
-    await logseq.UI.showMsg(`Failed to sync Todoist: ${message}`, "error");
+    logError("failed to preview sync", error);
+    await logseq.UI.showMsg(`Failed to preview the Todoist sync: ${message}`, "error");
   } finally {
     syncInProgress = false;
-    if (trigger === "auto") {
-      await restoreEditingState(editingState);
-    }
+  }
+}
+
+/**
+ * Applies the previewed changes.
+ */
+async function confirmSyncPreview() {
+  const preview = pendingPreview;
+  cancelSyncPreview();
+  if (preview) {
+    await syncTodoist("manual", { preview });
+  }
+}
+
+/**
+ * Discards the pending preview and closes its dialog.
+ */
+function cancelSyncPreview() {
+  if (pendingPreview) {
+    pendingPreview = undefined;
+    closePreviewDialog();
+  }
+}
+
+/**
+ * Downloads every account in full, including comments, and writes each to its own JSON snapshot file.
+ */
+async function exportSnapshot() {
+  const { accounts } = readSettings();
+  if (accounts.length === 0) {
+    await logseq.UI.showMsg("Configure the Todoist token in the plugin settings.", "warning");
+    return;
+  }
+
+  await logseq.UI.showMsg("Exporting Todoist snapshot...", "info");
+  for (const account of accounts) {
+    await exportAccountSnapshot(account);
+  }
+}
+
+/**
+ * Downloads one account in full, including comments, and writes it to a JSON snapshot file.
+ *
+ * @param account Account to export.
+ */
+async function exportAccountSnapshot(account: TodoistAccount) {
+  const { token } = account;
+  try {
+    // A snapshot is an archive, so it walks the whole completed history rather than the latest completions
+    const data = await fetchFullData(token, "full");
+    const { tasks, projectComments } = await enrichTasksWithComments(data.tasks, token, account.name);
+    const projects = data.projects.map((project) => ({
+      ...project,
+      comments: projectComments.get(String(project.id)) ?? [],
+    }));
+    const path = await writeSnapshotFile(
+      buildSnapshot({
+        tasks,
+        occurrences: data.occurrences,
+        projects,
+        labels: data.labels,
+        sections: data.sections,
+      }),
+      account.name
+    );
+    logInfo(`snapshot exported to ${path}`);
+    await logseq.UI.showMsg(`Todoist snapshot saved to ${path} (${tasks.length} tasks).`, "success");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logError("failed to export snapshot", { account: account.name, error });
+    const label = account.name ? ` (${account.name})` : "";
+    await logseq.UI.showMsg(`Failed to export Todoist snapshot${label}: ${message}`, "error");
   }
 }
 
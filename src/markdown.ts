@@ -0,0 +1,196 @@
+/**
+ * Converts Todoist Markdown into Logseq block trees.
+ */
+
+import type { IBatchBlock } from "@logseq/libs/dist/LSPlugin";
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const LIST_ITEM_PATTERN = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const CHECKBOX_PATTERN = /^\[([ xX])\]\s+/;
+const HEADING_PATTERN = /^#{1,6}\s+\S/;
+const PROPERTY_LIKE_PATTERN = /^([^\s:]+)::/;
+const ORDERED_LIST_PROPERTY = "logseq.order-list-type:: number";
+
+type ListFrame = {
+  indent: number;
+  block: IBatchBlock;
+};
+
+/**
+ * Splits Markdown text into Logseq blocks.
+ * Paragraphs, headings and code fences become one block each; list items become
+ * nested blocks and checklist items become `TODO`/`DONE` blocks.
+ *
+ * @param markdown Raw Markdown text such as a Todoist task description.
+ */
+export function markdownToBlocks(markdown: string | null | undefined): IBatchBlock[] {
+  const lines = (markdown ?? "").replace(/\r\n?/g, "\n").split("\n");
+  const blocks: IBatchBlock[] = [];
+  const stack: ListFrame[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ content: paragraph.join("\n") });
+      paragraph = [];
+    }
+  };
+
+  const appendToList = (line: string) => {
+    const top = stack[stack.length - 1].block;
+    const continuation = escapePropertyLike(line.trim());
+    // Keep the ordered-list property as the last line of the block
+    top.content = top.content.endsWith(`\n${ORDERED_LIST_PROPERTY}`)
+      ? top.content.replace(`\n${ORDERED_LIST_PROPERTY}`, `\n${continuation}\n${ORDERED_LIST_PROPERTY}`)
+      : `${top.content}\n${continuation}`;
+  };
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const line = lines[index];
+
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      flushParagraph();
+      const fenced = [line.trim()];
+      while (index + 1 < lines.length) {
+        index += 1;
+        fenced.push(lines[index]);
+        if (lines[index].trim().startsWith(fence[1])) {
+          break;
+        }
+      }
+      const code: IBatchBlock = { content: fenced.join("\n") };
+      if (stack.length > 0 && indentWidth(line) > stack[stack.length - 1].indent) {
+        const parent = stack[stack.length - 1].block;
+        parent.children = [...(parent.children ?? []), code];
+      } else {
+        stack.length = 0;
+        blocks.push(code);
+      }
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM_PATTERN);
+    if (item) {
+      flushParagraph();
+      const indent = indentWidth(item[1]);
+      while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+        stack.pop();
+      }
+      const block: IBatchBlock = { content: listItemContent(item[2], item[3]) };
+      if (stack.length > 0) {
+        const parent = stack[stack.length - 1].block;
+        parent.children = [...(parent.children ?? []), block];
+      } else {
+        blocks.push(block);
+      }
+      stack.push({ indent, block });
+      continue;
+    }
+
+    if (stack.length > 0 && indentWidth(line) > stack[stack.length - 1].indent) {
+      appendToList(line);
+      continue;
+    }
+    stack.length = 0;
+
+    if (HEADING_PATTERN.test(line.trim())) {
+      flushParagraph();
+      blocks.push({ content: escapePropertyLike(line.trim()) });
+      continue;
+    }
+
+    paragraph.push(escapePropertyLike(line.trimEnd()));
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+/**
+ * Formats a list item, turning checkboxes into task markers and numbers into Logseq ordered lists.
+ *
+ * @param bullet List bullet (`-`, `*`, `+`, or `1.`).
+ * @param text Text following the bullet.
+ */
+function listItemContent(bullet: string, text: string) {
+  const checkbox = text.match(CHECKBOX_PATTERN);
+  if (checkbox) {
+    const marker = checkbox[1] === " " ? "TODO" : "DONE";
+    return `${marker} ${escapePropertyLike(text.slice(checkbox[0].length))}`;
+  }
+  const content = escapePropertyLike(text);
+  return /^\d/.test(bullet) ? `${content}\n${ORDERED_LIST_PROPERTY}` : content;
+}
+
+/**
+ * Keeps lines shaped like `key:: value` from being parsed as Logseq block properties.
+ */
+function escapePropertyLike(line: string) {
+  return line.replace(PROPERTY_LIKE_PATTERN, "$1 ::");
+}
+
+/**
+ * Measures leading indentation, counting tabs as four spaces.
+ */
+function indentWidth(value: string) {
+  const leading = value.match(/^\s*/)?.[0] ?? "";
+  return leading.replace(/\t/g, "    ").length;
+}
+
+/**
+ * Converts a Logseq block tree back into Markdown, the inverse of `markdownToBlocks`.
+ * Top-level blocks become paragraphs; nested blocks become list items.
+ *
+ * @param blocks Blocks to serialize, each with optional children.
+ */
+export function blocksToMarkdown(blocks: Array<{ content?: string; children?: unknown[] }>): string {
+  const renderItems = (items: Array<{ content?: string; children?: unknown[] }>, depth: number): string[] =>
+    items.flatMap((item) => {
+      const lines = (item.content ?? "").split("\n");
+      const ordered = lines.includes(ORDERED_LIST_PROPERTY);
+      const text = stripProperties(lines);
+      const bullet = ordered ? "1." : "-";
+      const first = (text[0] ?? "").replace(/^TODO\s+/, "[ ] ").replace(/^DONE\s+/, "[x] ");
+      const indent = "  ".repeat(depth);
+      return [
+        `${indent}${bullet} ${first}`,
+        ...text.slice(1).map((line) => `${indent}  ${line}`),
+        ...renderItems(childBlocks(item), depth + 1),
+      ];
+    });
+
+  return blocks
+    .map((block) => {
+      const content = block.content ?? "";
+      const isListItem = content.includes(ORDERED_LIST_PROPERTY) || /^(TODO|DONE)\s/.test(content);
+      if (isListItem) {
+        return renderItems([block], 0).join("\n");
+      }
+      return [...stripProperties(content.split("\n")), ...renderItems(childBlocks(block), 0)].join("\n");
+    })
+    .filter((chunk) => chunk.trim().length > 0)
+    .join("\n\n");
+}
+
+/**
+ * Drops Logseq property lines such as `collapsed:: true` from block content lines.
+ */
+function stripProperties(lines: string[]) {
+  return lines.filter((line) => !/^[\w.-]+::\s/.test(line.trim()));
+}
+
+/**
+ * Reads the child blocks of a block, ignoring unloaded uuid references.
+ */
+function childBlocks(block: { children?: unknown[] }) {
+  return (block.children ?? []).filter(
+    (child): child is { content?: string; children?: unknown[] } =>
+      Boolean(child) && typeof child === "object" && !Array.isArray(child)
+  );
+}
@@ -0,0 +1,122 @@
+/**
+ * Turns the changes recorded by a dry-run sync into the preview dialog.
+ */
+
+import type { WriteChange, WriteChangeRecord, WriteStats } from "./blocks";
+import { PREVIEW_MAX_CHANGES_PER_PAGE } from "./constants";
+import { PreviewDialogPage, showPreviewDialog } from "./ui";
+
+export type SyncPlan = {
+  /**
+   * Task block changes recorded by `writeBlocks()` with `dryRun`.
+   */
+  stats: WriteStats;
+  /**
+   * Project pages whose managed blocks would be rewritten.
+   */
+  projectPages: string[];
+};
+
+const CHANGE_ACTIONS: Record<WriteChange, string> = {
+  created: "create",
+  updated: "update",
+  moved: "move away",
+  retired: "mark deleted",
+  purged: "remove",
+};
+
+const CHANGE_ORDER: WriteChange[] = ["created", "updated", "moved", "retired", "purged"];
+
+/**
+ * Identifies a plan so a later dry run can tell whether the graph changed in between.
+ *
+ * @param plan Changes recorded by a dry run.
+ */
+export function fingerprintSyncPlan(plan: SyncPlan) {
+  const changes = plan.stats.changes.map((change) => [
+    change.pageName,
+    change.change,
+    change.todoistId ?? change.title,
+  ]);
+  return JSON.stringify([changes, plan.projectPages]);
+}
+
+/**
+ * Combines the plans of several accounts into one plan for the preview dialog.
+ *
+ * @param plans Changes recorded by the dry run of each account.
+ */
+export function mergeSyncPlans(plans: SyncPlan[]): SyncPlan {
+  const stats: WriteStats = {
+    created: 0,
+    updated: 0,
+    retired: 0,
+    purged: 0,
+    moved: 0,
+    pages: new Set(),
+    changes: [],
+  };
+  for (const plan of plans) {
+    for (const kind of CHANGE_ORDER) {
+      stats[kind] += plan.stats[kind];
+    }
+    plan.stats.pages.forEach((pageName) => stats.pages.add(pageName));
+    stats.changes.push(...plan.stats.changes);
+  }
+  return { stats, projectPages: plans.flatMap((plan) => plan.projectPages) };
+}
+
+/**
+ * Opens the preview dialog for a plan, one section per page in name order.
+ *
+ * @param plan Changes recorded by a dry run.
+ * @param notice Warning shown above the totals.
+ */
+export function showSyncPreview(plan: SyncPlan, notice?: string) {
+  const byPage = new Map<string, WriteChangeRecord[]>();
+  for (const change of plan.stats.changes) {
+    byPage.set(change.pageName, [...(byPage.get(change.pageName) ?? []), change]);
+  }
+
+  const pages: PreviewDialogPage[] = [...byPage.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([pageName, changes]) => ({
+      pageName,
+      summary: summarizeChanges(changes.map((change) => change.change)),
+      items: changes.slice(0, PREVIEW_MAX_CHANGES_PER_PAGE).map((change) => ({
+        action: CHANGE_ACTIONS[change.change],
+        title: change.title || change.todoistId || "Untitled task",
+      })),
+      hidden: Math.max(changes.length - PREVIEW_MAX_CHANGES_PER_PAGE, 0),
+    }));
+
+  if (plan.projectPages.length > 0) {
+    pages.push({
+      pageName: "Project pages",
+      summary: `${plan.projectPages.length} rewrite`,
+      items: plan.projectPages
+        .slice(0, PREVIEW_MAX_CHANGES_PER_PAGE)
+        .map((pageName) => ({ action: "rewrite", title: pageName })),
+      hidden: Math.max(plan.projectPages.length - PREVIEW_MAX_CHANGES_PER_PAGE, 0),
+    });
+  }
+
+  const { changes } = plan.stats;
+  const summary =
+    changes.length > 0
+      ? `${summarizeChanges(changes.map((change) => change.change))} on ${byPage.size} page(s).`
+      : "No task blocks would change.";
+  showPreviewDialog(summary, pages, notice);
+}
+
+/**
+ * Counts changes by kind, e.g. `2 create · 1 update`.
+ */
+function summarizeChanges(changes: WriteChange[]) {
+  return CHANGE_ORDER.map((kind) => {
+    const count = changes.filter((change) => change === kind).length;
+    return count > 0 ? `${count} ${CHANGE_ACTIONS[kind]}` : "";
+  })
+    .filter(Boolean)
+    .join(" · ");
+}
@@ -0,0 +1,179 @@
+/**
+ * Shared HTTP layer for Todoist requests: concurrency cap, timeouts, and retries
+ * with exponential backoff that honor `Retry-After`.
+ */
+
+import {
+  REQUEST_BACKOFF_BASE_MS,
+  REQUEST_BACKOFF_MAX_MS,
+  REQUEST_MAX_CONCURRENCY,
+  REQUEST_MAX_RETRIES,
+  REQUEST_TIMEOUT_MS,
+} from "./constants";
+import { logWarn } from "./logger";
+
+export type RequestOptions = {
+  /**
+   * Milliseconds before an attempt is aborted; defaults to `REQUEST_TIMEOUT_MS`.
+   */
+  timeoutMs?: number;
+  /**
+   * Retries after the first attempt; defaults to `REQUEST_MAX_RETRIES`.
+   */
+  maxRetries?: number;
+};
+
+/**
+ * Raised when a request attempt exceeds its timeout.
+ */
+export class RequestTimeoutError extends Error {
+  constructor(url: string, timeoutMs: number) {
+    super(`Request to ${url} timed out after ${timeoutMs} ms`);
+    this.name = "RequestTimeoutError";
+  }
+}
+
+export type RequestCounters = {
+  /**
+   * Requests made, each counted once however often it was retried.
+   */
+  requests: number;
+  retries: number;
+  /**
+   * Requests that ended with an error status or exception after their last attempt.
+   */
+  failures: number;
+};
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+let activeRequests = 0;
+const waiting: Array<() => void> = [];
+const counters: RequestCounters = { requests: 0, retries: 0, failures: 0 };
+
+/**
+ * Returns the running totals of Todoist requests since the plugin loaded.
+ * Callers measure a period by comparing two readings.
+ */
+export function readRequestCounters(): RequestCounters {
+  return { ...counters };
+}
+
+/**
+ * Performs a Todoist request, retrying rate limits, server errors, timeouts, and network failures.
+ * Non-GET requests carry a stable `X-Request-Id` so Todoist ignores duplicated retries.
+ * Resolves with the final response, which callers still check with `response.ok`.
+ *
+ * @param url Absolute request URL.
+ * @param init Fetch options; `signal` is managed by this function.
+ * @param options Timeout and retry overrides.
+ */
+export async function todoistFetch(url: string, init: RequestInit = {}, options: RequestOptions = {}) {
+  const timeoutMs = options.timeoutMs ?? REQUEST_TIMEOUT_MS;
+  const maxRetries = Math.max(0, options.maxRetries ?? REQUEST_MAX_RETRIES);
+  const method = (init.method ?? "GET").toUpperCase();
+  const headers = new Headers(init.headers);
+  if (method !== "GET" && !headers.has("X-Request-Id")) {
+    headers.set("X-Request-Id", crypto.randomUUID());
+  }
+  const label = `${method} ${new URL(url).pathname}`;
+  counters.requests += 1;
+
+  for (let attempt = 0; ; attempt += 1) {
+    if (attempt > 0) {
+      counters.retries += 1;
+    }
+    let delayMs: number;
+    try {
+      const response = await withRequestSlot(() => fetchWithTimeout(url, { ...init, headers }, timeoutMs));
+      if (!RETRYABLE_STATUSES.has(response.status) || attempt >= maxRetries) {
+        if (!response.ok) {
+          counters.failures += 1;
+        }
+        return response;
+      }
+      delayMs = parseRetryAfter(response.headers.get("Retry-After")) ?? backoffDelay(attempt);
+      logWarn("todoist request will be retried", { request: label, status: response.status, attempt, delayMs });
+    } catch (error) {
+      if (attempt >= maxRetries) {
+        counters.failures += 1;
+        throw error;
+      }
+      delayMs = backoffDelay(attempt);
+      const message = error instanceof Error ? error.message : String(error);
+      logWarn("todoist request will be retried", { request: label, error: message, attempt, delayMs });
+    }
+    await sleep(delayMs);
+  }
+}
+
+/**
+ * Runs a single fetch attempt, aborting it after the timeout.
+ */
+async function fetchWithTimeout(url: string, init: RequestInit, timeoutMs: number) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new RequestTimeoutError(url, timeoutMs);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Runs a task once fewer than `REQUEST_MAX_CONCURRENCY` requests are in flight.
+ * Slots are released before retry delays so waiting requests never block others.
+ */
+async function withRequestSlot<T>(task: () => Promise<T>): Promise<T> {
+  if (activeRequests >= REQUEST_MAX_CONCURRENCY) {
+    // The releasing request hands its slot over, so the count stays unchanged
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  } else {
+    activeRequests += 1;
+  }
+  try {
+    return await task();
+  } finally {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      activeRequests -= 1;
+    }
+  }
+}
+
+/**
+ * Converts a `Retry-After` header (seconds or HTTP date) into a delay in milliseconds.
+ */
+function parseRetryAfter(value: string | null) {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  const delayMs = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(value) - Date.now();
+  if (!Number.isFinite(delayMs)) {
+    return undefined;
+  }
+  return Math.min(Math.max(delayMs, 0), REQUEST_BACKOFF_MAX_MS);
+}
+
+/**
+ * Computes an exponential backoff delay with full jitter for the given attempt.
+ */
+function backoffDelay(attempt: number) {
+  const ceiling = Math.min(REQUEST_BACKOFF_BASE_MS * 2 ** attempt, REQUEST_BACKOFF_MAX_MS);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Resolves after the given number of milliseconds.
+ */
+function sleep(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
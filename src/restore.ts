@@ -0,0 +1,277 @@
+/**
+ * Recreates Todoist tasks from the blocks on the backup pages.
+ */
+
+import { BackupTaskRecord, readBackupTasks, relinkRestoredBlock } from "./blocks";
+import { ISO_DATE_PATTERN } from "./constants";
+import { logDebug, logError, logWarn } from "./logger";
+import { readSettings, TodoistAccount } from "./settings";
+import {
+  createComment,
+  createProject,
+  createTask,
+  fetchCompletedTasks,
+  fetchPaginated,
+  fetchTask,
+  matchLabelName,
+  TodoistLabel,
+  TodoistProject,
+  TodoistTask,
+  TodoistTaskDraft,
+  updateTaskCompletion,
+} from "./todoist";
+import { closeRestoreDialog, showRestoreDialog } from "./ui";
+
+type PendingRestore = {
+  accounts: TodoistAccount[];
+  candidates: BackupTaskRecord[];
+  selected: Set<string>;
+};
+
+let pendingRestore: PendingRestore | undefined;
+
+/**
+ * Finds backed-up tasks that no longer exist in Todoist, across every account, and opens the selection dialog.
+ */
+export async function openRestoreDialog() {
+  const { accounts } = readSettings();
+  if (accounts.length === 0) {
+    await logseq.UI.showMsg("Configure the Todoist token in the plugin settings.", "warning");
+    return;
+  }
+
+  try {
+    const candidates = new Map<string, BackupTaskRecord>();
+    for (const account of accounts) {
+      for (const record of await findMissingTasks(account)) {
+        // A task of a shared project is backed up by every account it is shared with
+        if (!candidates.has(record.id)) {
+          candidates.set(record.id, record);
+        }
+      }
+    }
+
+    if (candidates.size === 0) {
+      await logseq.UI.showMsg("Every backed-up task still exists in Todoist.", "success");
+      return;
+    }
+
+    pendingRestore = {
+      accounts,
+      candidates: [...candidates.values()].sort((a, b) => a.pageName.localeCompare(b.pageName)),
+      selected: new Set(),
+    };
+    renderRestoreDialog();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logError("failed to prepare restore", error);
+    await logseq.UI.showMsg(`Failed to read the Todoist backup: ${message}`, "error");
+  }
+}
+
+/**
+ * Lists the backed-up tasks of one account that no longer exist in Todoist.
+ * The active list and the latest completions rule out most tasks cheaply; the rest,
+ * such as older completions and tasks of archived projects, are looked up one by one
+ * and count as missing only when Todoist answers 404.
+ *
+ * @param account Account whose backup blocks are compared with Todoist.
+ */
+async function findMissingTasks(account: TodoistAccount) {
+  const { token } = account;
+  const [records, active, completed] = await Promise.all([
+    readBackupTasks(account.pageName, account.name),
+    fetchPaginated<TodoistTask>("/tasks", token),
+    fetchCompletedTasks(token),
+  ]);
+  const listedIds = new Set([...active, ...completed].map((task) => String(task.id)));
+  const unlisted = records.filter((record) => !listedIds.has(record.id));
+  const lookups = await Promise.all(unlisted.map((record) => fetchTask(token, record.id)));
+  const missing = unlisted.filter((_record, index) => !lookups[index]);
+
+  logDebug("restore_candidates", {
+    account: account.name,
+    backedUp: records.length,
+    checked: unlisted.length,
+    missing: missing.length,
+  });
+  return missing;
+}
+
+/**
+ * Toggles whether a task is restored.
+ *
+ * @param taskId Backed-up Todoist id of the task.
+ */
+export function toggleRestoreCandidate(taskId: string | undefined) {
+  if (!pendingRestore || !taskId) {
+    return;
+  }
+  if (!pendingRestore.selected.delete(taskId)) {
+    pendingRestore.selected.add(taskId);
+  }
+  renderRestoreDialog();
+}
+
+/**
+ * Selects every task, or clears the selection when all are already selected.
+ */
+export function toggleAllRestoreCandidates() {
+  if (!pendingRestore) {
+    return;
+  }
+  const { candidates, selected } = pendingRestore;
+  const allSelected = selected.size === candidates.length;
+  pendingRestore.selected = new Set(allSelected ? [] : candidates.map((record) => record.id));
+  renderRestoreDialog();
+}
+
+/**
+ * Closes the dialog without restoring anything.
+ */
+export function cancelRestore() {
+  pendingRestore = undefined;
+  closeRestoreDialog();
+}
+
+/**
+ * Recreates the selected tasks with their projects, labels, due dates, and comments,
+ * each in the account whose backup it came from.
+ */
+export async function confirmRestore() {
+  const current = pendingRestore;
+  cancelRestore();
+  if (!current || current.selected.size === 0) {
+    return;
+  }
+
+  const selected = current.candidates.filter((record) => current.selected.has(record.id));
+  await logseq.UI.showMsg(`Restoring ${selected.length} Todoist task(s)...`, "info");
+
+  let restored = 0;
+  for (const account of current.accounts) {
+    const records = selected.filter((record) => record.account === account.name);
+    if (records.length === 0) {
+      continue;
+    }
+    try {
+      const [projects, labels] = await Promise.all([
+        fetchPaginated<TodoistProject>("/projects", account.token),
+        fetchPaginated<TodoistLabel>("/labels", account.token),
+      ]);
+
+      for (const record of records) {
+        try {
+          await restoreTask(account.token, record, projects, labels);
+          restored += 1;
+        } catch (error) {
+          logError("failed to restore task", { taskId: record.id, error });
+        }
+      }
+    } catch (error) {
+      logError("failed to load projects and labels for restore", { account: account.name, error });
+    }
+  }
+
+  const failed = selected.length - restored;
+  await logseq.UI.showMsg(
+    failed > 0
+      ? `Restored ${restored} Todoist task(s); ${failed} failed. See the console for details.`
+      : `Restored ${restored} Todoist task(s).`,
+    failed > 0 ? "warning" : "success"
+  );
+}
+
+/**
+ * Re-renders the dialog from the pending selection.
+ */
+function renderRestoreDialog() {
+  if (!pendingRestore) {
+    return;
+  }
+  const { candidates, selected } = pendingRestore;
+  showRestoreDialog(
+    candidates.map((record) => ({
+      id: record.id,
+      title: record.title || "Untitled task",
+      projectName: record.projectName,
+      due: record.due,
+      completed: record.completed,
+      selected: selected.has(record.id),
+    }))
+  );
+}
+
+/**
+ * Recreates one task and its comments, closes it when the backup shows it completed,
+ * and points the backup block at the new task.
+ *
+ * @param token Todoist API token with write access.
+ * @param record Task reconstructed from the backup.
+ * @param projects Existing projects; projects created along the way are appended.
+ * @param labels Existing labels used to map tags back to label names.
+ */
+async function restoreTask(
+  token: string,
+  record: BackupTaskRecord,
+  projects: TodoistProject[],
+  labels: TodoistLabel[]
+) {
+  const draft: TodoistTaskDraft = { content: record.title || "Untitled task" };
+  if (record.description) {
+    draft.description = record.description;
+  }
+  if (record.labels.length > 0) {
+    draft.labels = record.labels.map((tag) => matchLabelName(tag, labels));
+  }
+  if (record.priority) {
+    draft.priority = record.priority;
+  }
+  if (record.recurrence) {
+    draft.due_string = record.recurrence;
+  } else if (record.due && ISO_DATE_PATTERN.test(record.due)) {
+    draft.due_date = record.due;
+  }
+  const projectId = await resolveRestoreProject(token, record.projectName, projects);
+  if (projectId) {
+    draft.project_id = projectId;
+  }
+
+  const task = await createTask(token, draft);
+  const taskId = String(task.id);
+  for (const comment of record.comments) {
+    await createComment(token, taskId, comment);
+  }
+  if (record.completed) {
+    await updateTaskCompletion(token, taskId, "close");
+  }
+
+  await relinkRestoredBlock(record.uuid, taskId, task.url ?? `https://todoist.com/showTask?id=${taskId}`);
+  logDebug("task_restored", { previousId: record.id, taskId, comments: record.comments.length });
+}
+
+/**
+ * Finds the project a restored task belongs to, recreating it when it was deleted too.
+ *
+ * @param token Todoist API token with write access.
+ * @param projectName Project name read from the backup.
+ * @param projects Known projects, extended with any project created here.
+ */
+async function resolveRestoreProject(
+  token: string,
+  projectName: string | undefined,
+  projects: TodoistProject[]
+) {
+  if (!projectName || projectName.toLowerCase() === "inbox") {
+    return undefined;
+  }
+  const existing = projects.find((project) => project.name.toLowerCase() === projectName.toLowerCase());
+  if (existing) {
+    return String(existing.id);
+  }
+
+  logWarn("project missing upstream, recreating it", { project: projectName });
+  const created = await createProject(token, projectName);
+  projects.push(created);
+  return String(created.id);
+}
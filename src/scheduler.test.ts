@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { cancelScheduledSync, scheduleAutoSync } from "./scheduler";
+import type { TodoistAccount } from "./settings";
+
+const INTERVAL_MS = 5 * 60 * 1000;
+
+const accounts: TodoistAccount[] = [
+  { token: "default-token", pageName: "todoist", excludePatterns: [], syncSchedule: "" },
+  { name: "work", token: "work-token", pageName: "todoist-work", excludePatterns: [], syncSchedule: "" },
+];
+
+vi.mock("./settings", () => ({
+  readSettingsWithInterval: () => ({ accounts, intervalMs: INTERVAL_MS, quietHours: "" }),
+}));
+
+vi.mock("./logger", () => ({
+  logError: vi.fn(),
+  logWarn: vi.fn(),
+}));
+
+describe("scheduleAutoSync", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal("window", globalThis);
+  });
+
+  afterEach(() => {
+    cancelScheduledSync();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it("syncs every account sharing a schedule when their timers fire together", async () => {
+    const synced: Array<string | undefined> = [];
+    let busy = false;
+    // Mirrors syncTodoist(), which returns without syncing while another sync runs
+    const handler = async (_trigger: "auto", account: TodoistAccount) => {
+      if (busy) {
+        return;
+      }
+      busy = true;
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      synced.push(account.name);
+      busy = false;
+    };
+
+    scheduleAutoSync(handler);
+    await vi.advanceTimersByTimeAsync(INTERVAL_MS + 5000);
+
+    expect(synced).toEqual([undefined, "work"]);
+  });
+});
@@ -1,35 +1,368 @@
-import { readSettingsWithInterval } from "./settings";
+import { logError, logWarn } from "./logger";
+import { readSettingsWithInterval, TodoistAccount } from "./settings";
 
-type SyncHandler = (trigger: "auto") => Promise<void>;
+type SyncHandler = (trigger: "auto", account: TodoistAccount) => Promise<void>;
 
-let scheduledSync: number | null = null;
+type ScheduledHandler = (nextRun: Date | undefined) => void;
+
+type CronField = Set<number>;
+
+type CronSchedule = {
+  kind: "cron";
+  minutes: CronField;
+  hours: CronField;
+  daysOfMonth: CronField;
+  months: CronField;
+  daysOfWeek: CronField;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+};
+
+type DailyTimesSchedule = {
+  kind: "times";
+  minutesOfDay: number[];
+};
+
+type IntervalSchedule = {
+  kind: "interval";
+  intervalMs: number;
+};
+
+type SyncSchedule = CronSchedule | DailyTimesSchedule | IntervalSchedule;
+
+type QuietHours = {
+  start: number;
+  end: number;
+};
+
+type ScheduledRun = {
+  timer: number;
+  nextRun: Date;
+};
+
+type AutoSyncSettings = {
+  intervalMs: number;
+  quietHours: string;
+};
+
+const MINUTE_MS = 60 * 1000;
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+const MAX_SEARCH_MINUTES = 366 * 24 * 60;
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Pending automatic sync of each account, keyed by account name ("" for the default account).
+ */
+const scheduledSyncs = new Map<string, ScheduledRun>();
+
+/**
+ * Tail of the automatic syncs that fired, run one after another.
+ */
+let autoSyncQueue: Promise<void> = Promise.resolve();
 
 /**
- * Calculates interval settings and schedules the next automatic sync run.
+ * Reads the schedule settings and sets a timer for the next automatic sync of every account.
+ * The callback receives the earliest planned run, or undefined when auto sync is off.
  *
+ * @param handler Callback invoked with the account whose scheduled sync fires.
+ * @param onScheduled Callback notified whenever the next run changes.
+ */
+export function scheduleAutoSync(handler: SyncHandler, onScheduled?: ScheduledHandler) {
+  cancelScheduledSync();
+  const settings = readSettingsWithInterval();
+  for (const account of settings.accounts) {
+    scheduleAccountSync(account, settings, handler, onScheduled);
+  }
+  onScheduled?.(nextScheduledRun());
+}
+
+/**
+ * Clears every pending sync timeout.
+ */
+export function cancelScheduledSync() {
+  for (const { timer } of scheduledSyncs.values()) {
+    clearTimeout(timer);
+  }
+  scheduledSyncs.clear();
+}
+
+/**
+ * Sets the timer for one account's next automatic sync. Accounts are re-planned one
+ * at a time, so a sync of one account never delays the interval of another. Timers that
+ * fire together (accounts sharing a schedule) queue their syncs instead of finding the
+ * first one still running and being skipped.
+ *
+ * @param account Account to schedule.
+ * @param settings Sync interval and quiet hours.
  * @param handler Callback invoked when the scheduled sync fires.
+ * @param onScheduled Callback notified whenever the next run changes.
+ */
+function scheduleAccountSync(
+  account: TodoistAccount,
+  settings: AutoSyncSettings,
+  handler: SyncHandler,
+  onScheduled?: ScheduledHandler
+) {
+  const key = account.name ?? "";
+  clearTimeout(scheduledSyncs.get(key)?.timer);
+  scheduledSyncs.delete(key);
+
+  const schedule = parseSyncSchedule(account.syncSchedule, settings.intervalMs);
+  const nextRun = computeNextRun(new Date(), schedule, parseQuietHours(settings.quietHours));
+  const delayMs = nextRun.getTime() - Date.now();
+  // Timers longer than the browser limit fire immediately, so far runs are re-planned in steps
+  const timer = window.setTimeout(() => {
+    scheduledSyncs.delete(key);
+    autoSyncQueue = autoSyncQueue
+      .then(async () => {
+        if (delayMs <= MAX_TIMEOUT_MS) {
+          await handler("auto", account);
+        }
+      })
+      .catch((error) => logError("scheduled sync failed", error))
+      .then(() => {
+        // The settings may have changed while the sync ran
+        const current = readSettingsWithInterval();
+        const replanned = current.accounts.find((candidate) => (candidate.name ?? "") === key);
+        if (replanned) {
+          scheduleAccountSync(replanned, current, handler, onScheduled);
+        }
+        onScheduled?.(nextScheduledRun());
+      });
+  }, Math.min(Math.max(delayMs, 0), MAX_TIMEOUT_MS));
+  scheduledSyncs.set(key, { timer, nextRun });
+}
+
+/**
+ * Returns the earliest planned automatic sync across accounts.
  */
-export function scheduleAutoSync(handler: SyncHandler) {
-  const { token, intervalMs } = readSettingsWithInterval();
-  if (!token) {
-    cancelScheduledSync();
-    return;
+function nextScheduledRun() {
+  let earliest: Date | undefined;
+  for (const { nextRun } of scheduledSyncs.values()) {
+    if (!earliest || nextRun < earliest) {
+      earliest = nextRun;
+    }
   }
+  return earliest;
+}
 
-  cancelScheduledSync();
-  scheduledSync = window.setTimeout(async () => {
-    scheduledSync = null;
-    await handler("auto");
-    scheduleAutoSync(handler);
-  }, intervalMs);
+/**
+ * Checks whether automatic syncs are currently paused by the quiet hours setting.
+ *
+ * @param now Moment to check.
+ */
+export function isQuietTime(now = new Date()) {
+  const quiet = parseQuietHours(readSettingsWithInterval().quietHours);
+  return quiet ? isWithinQuietHours(now, quiet) : false;
 }
 
 /**
- * Clears the pending sync timeout when present.
+ * Finds the next run of a schedule that falls outside the quiet hours.
+ *
+ * @param now Moment the search starts from (exclusive).
+ * @param schedule Parsed sync schedule.
+ * @param quiet Quiet hours, when configured.
  */
-export function cancelScheduledSync() {
-  if (scheduledSync !== null) {
-    clearTimeout(scheduledSync);
-    scheduledSync = null;
+function computeNextRun(now: Date, schedule: SyncSchedule, quiet: QuietHours | undefined): Date {
+  let candidate = nextScheduledTime(now, schedule);
+  // Each pass jumps to the end of a quiet window, so a few passes always suffice
+  for (let attempt = 0; quiet && attempt < 4 && isWithinQuietHours(candidate, quiet); attempt += 1) {
+    const quietEnd = endOfQuietHours(candidate, quiet);
+    candidate =
+      schedule.kind === "interval" ? quietEnd : nextScheduledTime(new Date(quietEnd.getTime() - MINUTE_MS), schedule);
+  }
+  return candidate;
+}
+
+/**
+ * Computes the next run of a schedule strictly after the given moment.
+ *
+ * @param after Moment the search starts from.
+ * @param schedule Parsed sync schedule.
+ */
+function nextScheduledTime(after: Date, schedule: SyncSchedule): Date {
+  if (schedule.kind === "interval") {
+    return new Date(after.getTime() + schedule.intervalMs);
+  }
+
+  const start = new Date(after.getTime());
+  start.setSeconds(0, 0);
+  start.setMinutes(start.getMinutes() + 1);
+
+  if (schedule.kind === "times") {
+    for (let dayOffset = 0; dayOffset <= 1; dayOffset += 1) {
+      for (const minuteOfDay of schedule.minutesOfDay) {
+        const candidate = new Date(start.getFullYear(), start.getMonth(), start.getDate() + dayOffset);
+        candidate.setMinutes(minuteOfDay);
+        if (candidate >= start) {
+          return candidate;
+        }
+      }
+    }
+  } else {
+    const candidate = start;
+    for (let step = 0; step < MAX_SEARCH_MINUTES; step += 1) {
+      if (!schedule.months.has(candidate.getMonth() + 1)) {
+        candidate.setMonth(candidate.getMonth() + 1, 1);
+        candidate.setHours(0, 0);
+      } else if (!matchesCronDay(candidate, schedule)) {
+        candidate.setDate(candidate.getDate() + 1);
+        candidate.setHours(0, 0);
+      } else if (!schedule.hours.has(candidate.getHours())) {
+        candidate.setHours(candidate.getHours() + 1, 0);
+      } else if (!schedule.minutes.has(candidate.getMinutes())) {
+        candidate.setMinutes(candidate.getMinutes() + 1);
+      } else {
+        return candidate;
+      }
+    }
+    logWarn("cron schedule never matches, retrying in a day");
+  }
+
+  return new Date(after.getTime() + 24 * 60 * MINUTE_MS);
+}
+
+/**
+ * Applies cron day matching: when both day fields are restricted, either may match.
+ */
+function matchesCronDay(date: Date, schedule: CronSchedule) {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * Parses the schedule setting: a five-field cron expression, a comma-separated list of
+ * daily `HH:MM` times, or empty for the fixed interval. Invalid values fall back to the interval.
+ *
+ * @param raw Trimmed schedule setting.
+ * @param intervalMs Fixed interval used when no schedule is configured.
+ */
+function parseSyncSchedule(raw: string, intervalMs: number): SyncSchedule {
+  if (!raw) {
+    return { kind: "interval", intervalMs };
+  }
+
+  const times = raw.split(/[,\s]+/).filter(Boolean);
+  if (times.every((time) => TIME_PATTERN.test(time))) {
+    const minutesOfDay = [...new Set(times.map(parseTimeOfDay))].sort((a, b) => a - b);
+    return { kind: "times", minutesOfDay };
+  }
+
+  const cron = parseCronExpression(raw);
+  if (cron) {
+    return cron;
+  }
+
+  logWarn("invalid sync schedule, using the sync interval", { schedule: raw });
+  return { kind: "interval", intervalMs };
+}
+
+/**
+ * Parses a standard five-field cron expression (minute, hour, day of month, month, day of week).
+ * Returns undefined when the expression is invalid.
+ */
+function parseCronExpression(expression: string): CronSchedule | undefined {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    return undefined;
+  }
+
+  const minutes = parseCronField(fields[0], 0, 59);
+  const hours = parseCronField(fields[1], 0, 23);
+  const daysOfMonth = parseCronField(fields[2], 1, 31);
+  const months = parseCronField(fields[3], 1, 12);
+  const daysOfWeek = parseCronField(fields[4], 0, 7);
+  if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeek) {
+    return undefined;
+  }
+
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    kind: "cron",
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === "*",
+    anyDayOfWeek: fields[4] === "*",
+  };
+}
+
+/**
+ * Expands one cron field (`*`, `a`, `a-b`, comma lists, each with an optional `/n` step) into its values.
+ */
+function parseCronField(field: string, min: number, max: number): CronField | undefined {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      return undefined;
+    }
+    const from = match[1] === "*" ? min : Number(match[2]);
+    const to = match[1] === "*" ? max : match[3] !== undefined ? Number(match[3]) : match[4] ? max : from;
+    const step = match[4] ? Number(match[4]) : 1;
+    if (from < min || to > max || from > to || step < 1) {
+      return undefined;
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parses the quiet hours setting (`HH:MM-HH:MM`, may wrap past midnight).
+ *
+ * @param raw Trimmed quiet hours setting.
+ */
+function parseQuietHours(raw: string): QuietHours | undefined {
+  if (!raw) {
+    return undefined;
+  }
+  const [start, end] = raw.split("-").map((part) => part.trim());
+  if (!start || !end || !TIME_PATTERN.test(start) || !TIME_PATTERN.test(end) || start === end) {
+    logWarn("invalid quiet hours, ignoring them", { quietHours: raw });
+    return undefined;
+  }
+  return { start: parseTimeOfDay(start), end: parseTimeOfDay(end) };
+}
+
+/**
+ * Converts an `HH:MM` string into minutes since midnight.
+ */
+function parseTimeOfDay(value: string) {
+  const [hours, minutes] = value.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Checks whether a moment falls inside the quiet hours.
+ */
+function isWithinQuietHours(date: Date, quiet: QuietHours) {
+  const minuteOfDay = date.getHours() * 60 + date.getMinutes();
+  return quiet.start < quiet.end
+    ? minuteOfDay >= quiet.start && minuteOfDay < quiet.end
+    : minuteOfDay >= quiet.start || minuteOfDay < quiet.end;
+}
+
+/**
+ * Returns the moment the quiet hours containing the given date end.
+ */
+function endOfQuietHours(date: Date, quiet: QuietHours) {
+  const end = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  end.setMinutes(quiet.end);
+  if (end <= date) {
+    end.setDate(end.getDate() + 1);
   }
+  return end;
 }
@@ -0,0 +1,204 @@
+/**
+ * Creates Todoist tasks from Logseq blocks.
+ */
+
+import { extractTodoistAccount, extractTodoistId } from "./blocks";
+import { ISO_DATE_PATTERN, TODOIST_ACCOUNT_PROPERTY, TODOIST_ID_PROPERTY } from "./constants";
+import { logDebug, logError, logWarn } from "./logger";
+import { readSettings } from "./settings";
+import { rememberAdoptedBlock } from "./storage";
+import {
+  createTask,
+  extractLogseqTags,
+  fetchPaginated,
+  matchLabelName,
+  parseProjectReference,
+  safeText,
+  TodoistLabel,
+  TodoistProject,
+  TodoistTaskDraft,
+} from "./todoist";
+
+const PROPERTY_LINE_PATTERN = /^([\w-]+)::\s*(.*)$/;
+const TASK_MARKER_PATTERN = /^(?:TODO|DOING|DONE|LATER|NOW|WAITING|WAIT|CANCELED|CANCELLED)\s+/;
+const PRIORITY_MARKER_PATTERN = /\[#[ABC]\]\s*/g;
+const PLANNING_LINE_PATTERN = /^(SCHEDULED|DEADLINE):\s*<(\d{4}-\d{2}-\d{2})[^>]*>/;
+
+/**
+ * Sends a block to Todoist as a new task and stamps it with the new `todoist-id::`.
+ * A `todoist-account::` property on the block selects the account; otherwise the
+ * first configured account is used and tagged on the block.
+ *
+ * @param uuid Block to send.
+ */
+export async function sendBlockAsTask(uuid: string) {
+  const { accounts } = readSettings();
+  if (accounts.length === 0) {
+    await logseq.UI.showMsg("Configure the Todoist token in the plugin settings.", "warning");
+    return;
+  }
+
+  const block = await logseq.Editor.getBlock(uuid);
+  if (!block) {
+    return;
+  }
+
+  const content = block.content ?? "";
+  if (extractTodoistId(content)) {
+    await logseq.UI.showMsg("This block is already linked to a Todoist task.", "warning");
+    return;
+  }
+
+  const accountName = extractTodoistAccount(content);
+  const account = accountName ? accounts.find((candidate) => candidate.name === accountName) : accounts[0];
+  if (!account) {
+    await logseq.UI.showMsg(`No Todoist account named "${accountName}" is configured.`, "warning");
+    return;
+  }
+  const { token } = account;
+
+  try {
+    const [projects, labels] = await Promise.all([
+      fetchPaginated<TodoistProject>("/projects", token),
+      fetchPaginated<TodoistLabel>("/labels", token),
+    ]);
+
+    const draft = buildTaskDraft(content, projects, labels);
+    if (!draft.content) {
+      await logseq.UI.showMsg("The block has no text to send to Todoist.", "warning");
+      return;
+    }
+
+    const task = await createTask(token, draft);
+    const url = task.url ?? `https://todoist.com/showTask?id=${task.id}`;
+    await logseq.Editor.upsertBlockProperty(uuid, TODOIST_ID_PROPERTY, `[${task.id}](${url})`);
+    if (account.name && !accountName) {
+      await logseq.Editor.upsertBlockProperty(uuid, TODOIST_ACCOUNT_PROPERTY, account.name);
+    }
+    await rememberAdoptedBlock(String(task.id), uuid, account.name);
+
+    logDebug("block_sent", { taskId: task.id, account: account.name, hasDue: Boolean(draft.due_date) });
+    await logseq.UI.showMsg(`Todoist task created: ${draft.content}`, "success");
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logError("failed to send block to Todoist", error);
+    await logseq.UI.showMsg(`Failed to create Todoist task: ${message}`, "error");
+  }
+}
+
+/**
+ * Parses block content into a Todoist task draft.
+ * Date links become the due date, hashtags become labels, and `todoist-project::` selects the project.
+ *
+ * @param content Raw block content.
+ * @param projects Todoist projects used to resolve the project property.
+ * @param labels Todoist labels used to map hashtags back to label names.
+ */
+function buildTaskDraft(
+  content: string,
+  projects: TodoistProject[],
+  labels: TodoistLabel[]
+): TodoistTaskDraft {
+  const titleLines: string[] = [];
+  let projectValue = "";
+  let plannedDate = "";
+
+  for (const line of content.split("\n")) {
+    const trimmed = line.trim();
+    const property = trimmed.match(PROPERTY_LINE_PATTERN);
+    if (property) {
+      if (property[1].toLowerCase() === "todoist-project") {
+        projectValue = property[2];
+      }
+      continue;
+    }
+    const planning = trimmed.match(PLANNING_LINE_PATTERN);
+    if (planning) {
+      if (planning[1] === "SCHEDULED" || !plannedDate) {
+        plannedDate = planning[2];
+      }
+      continue;
+    }
+    if (trimmed) {
+      titleLines.push(trimmed);
+    }
+  }
+
+  const rawTitle = titleLines.join(" ").replace(TASK_MARKER_PATTERN, "").replace(PRIORITY_MARKER_PATTERN, "");
+  const { text: withoutDate, date } = extractDateLink(rawTitle);
+  const { text, tags } = extractLogseqTags(withoutDate);
+
+  const draft: TodoistTaskDraft = { content: safeText(text) };
+  const dueDate = date || plannedDate;
+  if (dueDate) {
+    draft.due_date = dueDate;
+  }
+
+  const labelNames = tags.map((tag) => matchLabelName(tag, labels));
+  if (labelNames.length > 0) {
+    draft.labels = labelNames;
+  }
+
+  const projectId = resolveProjectId(projectValue, projects);
+  if (projectId) {
+    draft.project_id = projectId;
+  }
+
+  return draft;
+}
+
+/**
+ * Removes the first `[[date]]` page link from the text and returns it as `YYYY-MM-DD`.
+ *
+ * @param text Block title text.
+ */
+function extractDateLink(text: string) {
+  const pattern = /\[\[([^\]]+)\]\]/g;
+  for (const match of text.matchAll(pattern)) {
+    const date = parseJournalDate(match[1]);
+    if (date) {
+      const index = match.index ?? 0;
+      return {
+        text: `${text.slice(0, index)} ${text.slice(index + match[0].length)}`,
+        date,
+      };
+    }
+  }
+  return { text, date: "" };
+}
+
+/**
+ * Parses a journal page title (ISO or formats such as `Oct 19th, 2026`) into `YYYY-MM-DD`.
+ */
+function parseJournalDate(value: string) {
+  const trimmed = value.trim();
+  if (ISO_DATE_PATTERN.test(trimmed)) {
+    return trimmed;
+  }
+  if (!/\d{4}/.test(trimmed)) {
+    return "";
+  }
+  const parsed = new Date(trimmed.replace(/(\d+)(st|nd|rd|th)\b/gi, "$1"));
+  if (Number.isNaN(parsed.getTime())) {
+    return "";
+  }
+  const month = String(parsed.getMonth() + 1).padStart(2, "0");
+  const day = String(parsed.getDate()).padStart(2, "0");
+  return `${parsed.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Resolves a `todoist-project::` value (`#Name`, `[[Name]]`, or plain text) to a project id.
+ */
+function resolveProjectId(value: string, projects: TodoistProject[]) {
+  const name = parseProjectReference(value).toLowerCase();
+  if (!name) {
+    return undefined;
+  }
+  const match = projects.find((project) => project.name.toLowerCase() === name);
+  if (!match) {
+    logWarn("project not found, task will be created in Inbox", { project: name });
+    return undefined;
+  }
+  return String(match.id);
+}
@@ -1,25 +1,81 @@
 import type { SettingSchemaDesc } from "@logseq/libs/dist/LSPlugin";
 
 import { 
+  ACCOUNT_NAME_PATTERN,
   DEFAULT_PAGE_NAME,
   DEFAULT_STATUS_ALIAS_ACTIVE,
   DEFAULT_STATUS_ALIAS_COMPLETED,
   DEFAULT_STATUS_ALIAS_DELETED,
+  PAGE_LAYOUTS,
 } from "./constants";
+import { compileCommentTemplate, compileTaskTemplate, PageLayout } from "./blocks";
 import { logWarn } from "./logger";
+import type { BlockTemplate } from "./template";
 
 export type PluginSettings = {
   todoist_token?: string;
   page_name?: string;
+  additional_accounts?: string;
+  page_layout?: string;
   sync_interval_minutes?: number;
+  sync_schedule?: string;
+  quiet_hours?: string;
+  sync_on_start?: boolean;
   include_comments?: boolean;
+  download_attachments?: boolean;
+  description_blocks?: boolean;
+  group_by_section?: boolean;
+  priority_markers?: boolean;
+  task_markers?: boolean;
+  task_template?: string;
+  comment_template?: string;
+  incremental_sync?: boolean;
+  completed_backfill?: boolean;
+  write_back?: boolean;
   exclude_title_patterns?: string;
   enable_debug_logs?: boolean;
   status_alias_active?: string;
   status_alias_completed?: string;
   status_alias_deleted?: string;
+  purge_deleted_after_days?: number;
 };
 
+/**
+ * A Todoist account backed up into the graph.
+ */
+export type TodoistAccount = {
+  /**
+   * Name tagged on the account's blocks and stored state; undefined for the default account.
+   */
+  name?: string;
+  token: string;
+  pageName: string;
+  excludePatterns: RegExp[];
+  /**
+   * Cron expression or daily times; empty uses the sync interval.
+   */
+  syncSchedule: string;
+};
+
+type AccountEntry = {
+  name?: unknown;
+  token?: unknown;
+  page_name?: unknown;
+  exclude_title_patterns?: unknown;
+  sync_schedule?: unknown;
+};
+
+type CompiledTemplate = {
+  source: string;
+  template: BlockTemplate | undefined;
+};
+
+/**
+ * Last compiled template of each template setting, so settings reads reuse it and an
+ * invalid template is reported once per change instead of on every read.
+ */
+const compiledTemplates = new Map<string, CompiledTemplate>();
+
 export const settingsSchema: SettingSchemaDesc[] = [
   {
     key: "todoist_token",
@@ -27,7 +83,7 @@ export const settingsSchema: SettingSchemaDesc[] = [
     default: "",
     title: "Todoist token",
     description:
-      "Personal Todoist token with read permissions. No write operations are performed.",
+      "Personal Todoist token. Read access is enough unless write-back is enabled; otherwise no write operations are performed.",
   },
   {
     key: "page_name",
@@ -36,12 +92,53 @@ export const settingsSchema: SettingSchemaDesc[] = [
     title: "Target page",
     description: "Logseq page where the backup will be stored.",
   },
+  {
+    key: "additional_accounts",
+    type: "string",
+    default: "",
+    title: "Additional Todoist accounts",
+    description:
+      "Optional JSON list of more accounts backed up into this graph, each with its own token and target page, e.g. [{\"name\": \"work\", \"token\": \"...\", \"page_name\": \"todoist-work\", \"exclude_title_patterns\": [\"^Standup\"], \"sync_schedule\": \"0 9-17 * * 1-5\"}]. Names may use letters, digits, - and _; their blocks are tagged with todoist-account::. Without a schedule the account follows the schedule or interval above. The token above stays the default account.",
+    inputAs: "textarea",
+  },
+  {
+    key: "page_layout",
+    type: "enum",
+    enumPicker: "select",
+    enumChoices: [...PAGE_LAYOUTS],
+    default: "date",
+    title: "Page layout",
+    description:
+      "How tasks are split into pages under the target page: date (one page per due or completion day), week (ISO week, e.g. 2025-W07), month, project (the project page), project-section (a sub-page per section), single (one page), or journal (a managed Todoist section on each real journal page). Existing blocks are moved on the next sync after a change.",
+  },
   {
     key: "sync_interval_minutes",
     type: "number",
     default: 5,
     title: "Sync interval (min)",
-    description: "Minutes between automatic background sync executions.",
+    description: "Minutes between automatic background sync executions. Ignored when a sync schedule is set.",
+  },
+  {
+    key: "sync_schedule",
+    type: "string",
+    default: "",
+    title: "Sync schedule",
+    description:
+      "Optional schedule replacing the interval: a cron expression such as \"0 9-17 * * 1-5\" (hourly during work hours) or daily times such as \"08:00, 12:30, 18:00\". Leave empty to use the interval.",
+  },
+  {
+    key: "quiet_hours",
+    type: "string",
+    default: "",
+    title: "Quiet hours",
+    description: "No automatic sync runs during this daily window, e.g. \"22:00-07:00\". Manual syncs still work.",
+  },
+  {
+    key: "sync_on_start",
+    type: "boolean",
+    default: false,
+    title: "Sync on start and graph switch",
+    description: "Run a sync when Logseq starts and whenever another graph is opened.",
   },
   {
     key: "include_comments",
@@ -50,6 +147,86 @@ export const settingsSchema: SettingSchemaDesc[] = [
     title: "Download comments",
     description: "Include Todoist task comments in the backup page.",
   },
+  {
+    key: "download_attachments",
+    type: "boolean",
+    default: false,
+    title: "Download comment attachments",
+    description:
+      "Save files attached to Todoist comments into the graph's assets folder and embed them in the comment blocks. Requires \"Download comments\".",
+  },
+  {
+    key: "description_blocks",
+    type: "boolean",
+    default: false,
+    title: "Descriptions as blocks",
+    description:
+      "Write task descriptions as child blocks with Markdown, lists and checklists preserved instead of a single todoist-desc property.",
+  },
+  {
+    key: "group_by_section",
+    type: "boolean",
+    default: false,
+    title: "Group by project and section",
+    description: "Nest each page's tasks under project and section header blocks.",
+  },
+  {
+    key: "priority_markers",
+    type: "boolean",
+    default: false,
+    title: "Priority markers",
+    description: "Prefix task titles with Logseq priority markers: p1 → [#A], p2 → [#B], p3 → [#C].",
+  },
+  {
+    key: "task_markers",
+    type: "boolean",
+    default: false,
+    title: "Logseq task markers",
+    description:
+      "Prefix task blocks with TODO/DONE (LATER/DONE with the NOW/LATER workflow) and add SCHEDULED/DEADLINE lines from the Todoist due date, time, recurrence, and deadline, so Logseq queries and the agenda pick them up.",
+  },
+  {
+    key: "task_template",
+    type: "string",
+    default: "",
+    title: "Task block template",
+    description:
+      "Replaces the built-in task block layout. Placeholders: {{id}}, {{url}}, {{title}}, {{date}}, {{due}}, {{project}}, {{section}}, {{labels}}, {{status}}, {{priority}}, {{priority_marker}}, {{recurrence}}, {{deadline}}, {{marker}}, {{due_timestamp}}, {{deadline_timestamp}}, {{duration}}, {{description}}, {{parent}}, {{completed}}, {{created}}. Use {{#if name}}...{{else}}...{{/if}} for optional fields. Must keep a todoist-id:: [{{id}}]({{url}}) line outside any {{#if}}. Leave empty for the built-in layout.",
+    inputAs: "textarea",
+  },
+  {
+    key: "comment_template",
+    type: "string",
+    default: "",
+    title: "Comment block template",
+    description:
+      "Replaces the built-in layout of task comment blocks. Placeholders: {{id}}, {{url}}, {{text}}, {{attachment}}, {{posted}}, with the same conditionals. Leave empty for the built-in layout.",
+    inputAs: "textarea",
+  },
+  {
+    key: "incremental_sync",
+    type: "boolean",
+    default: false,
+    title: "Incremental sync",
+    description:
+      "Only download tasks changed since the previous sync using the Todoist Sync API. Run \"Todoist: Full sync\" to rebuild everything.",
+  },
+  {
+    key: "completed_backfill",
+    type: "boolean",
+    default: false,
+    title: "Backfill completed history",
+    description:
+      "Download the whole completed-task history, walking back about a year per sync until the account start. Afterwards only newer completions are requested.",
+  },
+  {
+    key: "write_back",
+    type: "boolean",
+    default: false,
+    title: "Write completions back to Todoist",
+    description:
+      "Complete or reopen the Todoist task when a synced block is marked DONE/TODO or its todoist-status is changed to the completed/active alias. Tasks changed in Todoist since the last sync are left untouched.",
+  },
   {
     key: "exclude_title_patterns",
     type: "string",
@@ -87,6 +264,14 @@ export const settingsSchema: SettingSchemaDesc[] = [
     title: "Status alias: Deleted",
     description: "Custom text or emoji to represent deleted tasks (default: ❌).",
   },
+  {
+    key: "purge_deleted_after_days",
+    type: "number",
+    default: 0,
+    title: "Purge deleted tasks after (days)",
+    description:
+      "Tasks deleted in Todoist stay in the backup marked as deleted. Remove them after this many days; 0 keeps them forever.",
+  },
 ];
 
 /**
@@ -96,20 +281,163 @@ export function readSettingsWithInterval() {
   const settings = (logseq.settings ?? {}) as PluginSettings;
   const token = settings.todoist_token?.trim();
   const pageName = settings.page_name?.trim() || DEFAULT_PAGE_NAME;
+  const pageLayout = readPageLayout(settings.page_layout);
   const intervalMinutes = Number(settings.sync_interval_minutes) || 5;
   const intervalMs = Math.max(intervalMinutes, 1) * 60 * 1000;
+  const syncSchedule = settings.sync_schedule?.trim() ?? "";
+  const quietHours = settings.quiet_hours?.trim() ?? "";
+  const syncOnStart = Boolean(settings.sync_on_start);
   const includeComments = Boolean(settings.include_comments);
+  const downloadAttachments = includeComments && Boolean(settings.download_attachments);
+  const descriptionBlocks = Boolean(settings.description_blocks);
+  const groupBySection = Boolean(settings.group_by_section);
+  const priorityMarkers = Boolean(settings.priority_markers);
+  const taskMarkers = Boolean(settings.task_markers);
+  const taskTemplate = readBlockTemplate(settings.task_template, compileTaskTemplate, "task_template");
+  const commentTemplate = readBlockTemplate(settings.comment_template, compileCommentTemplate, "comment_template");
+  const incrementalSync = Boolean(settings.incremental_sync);
+  const completedBackfill = Boolean(settings.completed_backfill);
+  const writeBack = Boolean(settings.write_back);
   const excludePatterns = compileTitleExcludePatterns(settings.exclude_title_patterns);
   const statusAliases = readStatusAliases(settings);
-  return { token, pageName, intervalMs, includeComments, excludePatterns, statusAliases };
+  const purgeDeletedAfterDays = Math.max(Math.floor(Number(settings.purge_deleted_after_days) || 0), 0);
+  const defaultAccount = token ? { token, pageName, excludePatterns, syncSchedule } : undefined;
+  const accounts = readAccounts(settings.additional_accounts, defaultAccount, syncSchedule);
+  return {
+    accounts,
+    pageLayout,
+    intervalMs,
+    quietHours,
+    syncOnStart,
+    includeComments,
+    downloadAttachments,
+    descriptionBlocks,
+    incrementalSync,
+    completedBackfill,
+    statusAliases,
+    purgeDeletedAfterDays,
+    groupBySection,
+    priorityMarkers,
+    taskMarkers,
+    taskTemplate,
+    commentTemplate,
+    writeBack,
+  };
 }
 
 /**
  * Reads sanitized settings without interval metadata for simple callers.
  */
 export function readSettings() {
-  const { token, pageName, includeComments, excludePatterns, statusAliases } = readSettingsWithInterval();
-  return { token, pageName, includeComments, excludePatterns, statusAliases };
+  const {
+    accounts,
+    pageLayout,
+    includeComments,
+    downloadAttachments,
+    descriptionBlocks,
+    incrementalSync,
+    completedBackfill,
+    statusAliases,
+    purgeDeletedAfterDays,
+    groupBySection,
+    priorityMarkers,
+    taskMarkers,
+    taskTemplate,
+    commentTemplate,
+    writeBack,
+  } = readSettingsWithInterval();
+  return {
+    accounts,
+    pageLayout,
+    includeComments,
+    downloadAttachments,
+    descriptionBlocks,
+    incrementalSync,
+    completedBackfill,
+    statusAliases,
+    purgeDeletedAfterDays,
+    groupBySection,
+    priorityMarkers,
+    taskMarkers,
+    taskTemplate,
+    commentTemplate,
+    writeBack,
+  };
+}
+
+/**
+ * Lists the accounts to sync: the default account from the main settings, when it has a
+ * token, followed by the valid entries of the additional accounts setting. Entries without
+ * a token, with an invalid or repeated name, or with a target page already in use are
+ * reported and skipped.
+ *
+ * @param raw Raw additional accounts setting.
+ * @param defaultAccount Account configured by the main settings, when it has a token.
+ * @param syncSchedule Main schedule setting, used by accounts without their own.
+ */
+function readAccounts(raw: string | undefined, defaultAccount: TodoistAccount | undefined, syncSchedule: string) {
+  const accounts: TodoistAccount[] = defaultAccount ? [defaultAccount] : [];
+  const source = raw?.trim();
+  if (!source) {
+    return accounts;
+  }
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(source);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logWarn("invalid additional accounts ignored", { message });
+    return accounts;
+  }
+  if (!Array.isArray(entries)) {
+    logWarn("invalid additional accounts ignored", { message: "expected a JSON list of accounts" });
+    return accounts;
+  }
+
+  const readText = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+  const usedNames = new Set<string>();
+  const usedPages = accounts.map((account) => account.pageName.toLowerCase());
+  for (const entry of entries as AccountEntry[]) {
+    const name = readText(entry?.name);
+    const token = readText(entry?.token);
+    const pageName = readText(entry?.page_name) || `${DEFAULT_PAGE_NAME}-${name}`;
+    if (!ACCOUNT_NAME_PATTERN.test(name) || usedNames.has(name.toLowerCase())) {
+      logWarn("account ignored: names must be unique and use letters, digits, - or _", { account: name });
+      continue;
+    }
+    if (!token) {
+      logWarn("account ignored: no token", { account: name });
+      continue;
+    }
+    if (usedPages.some((used) => pagePrefixesOverlap(pageName.toLowerCase(), used))) {
+      logWarn("account ignored: its target page overlaps another account's page", { account: name, pageName });
+      continue;
+    }
+
+    const patterns = entry.exclude_title_patterns;
+    accounts.push({
+      name,
+      token,
+      pageName,
+      excludePatterns: compileTitleExcludePatterns(Array.isArray(patterns) ? patterns.join("\n") : readText(patterns)),
+      syncSchedule: readText(entry.sync_schedule) || syncSchedule,
+    });
+    usedNames.add(name.toLowerCase());
+    usedPages.push(pageName.toLowerCase());
+  }
+  return accounts;
+}
+
+/**
+ * Checks whether two target pages are equal or one is nested under the other; such
+ * accounts would list and retire each other's pages.
+ *
+ * @param a Lowercased target page of one account.
+ * @param b Lowercased target page of another account.
+ */
+function pagePrefixesOverlap(a: string, b: string) {
+  return a === b || a.startsWith(`${b}/`) || b.startsWith(`${a}/`);
 }
 
 /**
@@ -164,6 +492,53 @@ function extractPattern(input: string) {
   return { source: input, flags: "i" };
 }
 
+/**
+ * Validates the page layout setting, falling back to one page per date.
+ *
+ * @param value Raw setting value.
+ */
+function readPageLayout(value: string | undefined): PageLayout {
+  const layout = PAGE_LAYOUTS.find((candidate) => candidate === value);
+  if (value && !layout) {
+    logWarn("unknown page layout, using date pages", { pageLayout: value });
+  }
+  return layout ?? "date";
+}
+
+/**
+ * Compiles a block template setting; invalid templates are reported and the built-in layout is used.
+ * The result is reused until the setting text changes.
+ *
+ * @param raw Raw setting value.
+ * @param compile Parser and validator for the template kind.
+ * @param setting Setting key, reported in the warning.
+ */
+function readBlockTemplate(
+  raw: string | undefined,
+  compile: (source: string) => BlockTemplate,
+  setting: string
+): BlockTemplate | undefined {
+  const source = raw?.trim();
+  if (!source) {
+    compiledTemplates.delete(setting);
+    return undefined;
+  }
+  const cached = compiledTemplates.get(setting);
+  if (cached?.source === source) {
+    return cached.template;
+  }
+
+  let template: BlockTemplate | undefined;
+  try {
+    template = compile(source);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logWarn("invalid block template, using the built-in layout", { setting, message });
+  }
+  compiledTemplates.set(setting, { source, template });
+  return template;
+}
+
 /**
  * Reads and sanitizes status aliases from plugin settings.
  * Falls back to default emoji values if not configured.
@@ -0,0 +1,69 @@
+/**
+ * Writes lossless JSON snapshots of the Todoist account into the graph.
+ */
+
+import { SNAPSHOT_ASSET_FOLDER, SNAPSHOT_SCHEMA_VERSION } from "./constants";
+import { logDebug } from "./logger";
+import type { TodoistBackupTask, TodoistLabel, TodoistProject, TodoistSection } from "./todoist";
+
+export type SnapshotData = {
+  tasks: TodoistBackupTask[];
+  occurrences: TodoistBackupTask[];
+  projects: TodoistProject[];
+  labels: TodoistLabel[];
+  sections: TodoistSection[];
+};
+
+export type TodoistSnapshot = SnapshotData & {
+  version: number;
+  exportedAt: string;
+  schema: Record<string, string>;
+};
+
+const SNAPSHOT_SCHEMA: Record<string, string> = {
+  version: "Snapshot format version; bumped whenever a field changes meaning or shape.",
+  exportedAt: "ISO 8601 timestamp of the export.",
+  tasks:
+    "Active and completed tasks exactly as returned by Todoist (/tasks; every completion since the account start, fetched in date windows from /tasks/completed/by_completion_date; and the latest 200 completions of each archived project from /completed/get_all), merged by id. Completed entries carry `completed`, `completed_at`, and `completed_date`; `comments` holds each task's comments (Sync API `notes`, or /comments for completed tasks) with `attachment` metadata.",
+  occurrences:
+    "Past completions of recurring tasks, one entry per completion with the task's `id` and `completed_at`; the recurring task itself stays in `tasks`.",
+  projects: "Projects as returned by /projects and /projects/archived (archived ones have `is_archived: true`), each with its `comments` (Sync API `project_notes`).",
+  labels: "Personal labels as returned by /labels.",
+  sections: "Sections as returned by /sections.",
+};
+
+/**
+ * Wraps exported Todoist data with the version, timestamp, and schema description.
+ *
+ * @param data Tasks, recurring occurrences, projects, labels, and sections to archive.
+ * @param exportedAt Moment of the export.
+ */
+export function buildSnapshot(data: SnapshotData, exportedAt = new Date()): TodoistSnapshot {
+  return {
+    version: SNAPSHOT_SCHEMA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    schema: SNAPSHOT_SCHEMA,
+    tasks: data.tasks,
+    occurrences: data.occurrences,
+    projects: data.projects,
+    labels: data.labels,
+    sections: data.sections,
+  };
+}
+
+/**
+ * Stores a snapshot in the graph's assets folder and returns its graph-relative path.
+ *
+ * @param snapshot Snapshot produced by `buildSnapshot`.
+ * @param account Account name added to the file name; undefined for the default account.
+ */
+export async function writeSnapshotFile(snapshot: TodoistSnapshot, account?: string) {
+  const stamp = snapshot.exportedAt.replace(/\.\d+Z$/, "Z").replace(/:/g, "-");
+  const name = account ? `todoist-snapshot-${account}-${stamp}` : `todoist-snapshot-${stamp}`;
+  const key = `${SNAPSHOT_ASSET_FOLDER}/${name}.json`;
+  const storage = logseq.Assets.makeSandboxStorage();
+  await storage.setItem(key, JSON.stringify(snapshot, null, 2));
+
+  logDebug("snapshot_written", { key, tasks: snapshot.tasks.length });
+  return `assets/storages/${logseq.baseInfo.id}/${key}`;
+}
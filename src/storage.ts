@@ -0,0 +1,382 @@
+/**
+ * Persistent plugin state stored through Logseq's plugin file storage.
+ * State is namespaced per graph so switching graphs never reuses another graph's cursor,
+ * and per account for every account but the default one.
+ */
+
+import {
+  ADOPTED_BLOCKS_STORAGE_PREFIX,
+  ATTACHMENT_INDEX_STORAGE_PREFIX,
+  COMMENT_CACHE_STORAGE_PREFIX,
+  COMPLETED_HISTORY_STORAGE_PREFIX,
+  PAGE_LAYOUT_STORAGE_PREFIX,
+  PAGE_LAYOUTS,
+  SYNC_STATE_STORAGE_PREFIX,
+  TASK_SNAPSHOTS_STORAGE_PREFIX,
+} from "./constants";
+import type { PageLayout } from "./blocks";
+import { logError, logWarn } from "./logger";
+import type {
+  TodoistComment,
+  TodoistLabel,
+  TodoistProject,
+  TodoistProjectComment,
+  TodoistSection,
+} from "./todoist";
+
+export type SyncState = {
+  syncToken?: string;
+  projects?: TodoistProject[];
+  labels?: TodoistLabel[];
+  sections?: TodoistSection[];
+};
+
+export type CachedTaskComments = {
+  version: string;
+  comments: TodoistComment[];
+  /**
+   * When the comments were downloaded; entries without a comment count expire by age.
+   */
+  fetchedAt?: string;
+};
+
+export type CommentCache = {
+  /**
+   * Sync API token for the `notes` resource.
+   */
+  syncToken?: string;
+  /**
+   * Comments of active tasks maintained from Sync API `notes` changes, keyed by task id.
+   */
+  synced: Map<string, TodoistComment[]>;
+  /**
+   * Comments fetched per task for tasks outside the Sync API (completed ones), keyed by task id.
+   */
+  fetched: Map<string, CachedTaskComments>;
+  /**
+   * Project comments maintained from Sync API `project_notes` changes, keyed by project id.
+   */
+  projects: Map<string, TodoistProjectComment[]>;
+};
+
+export type CompletedHistoryState = {
+  /**
+   * Start of the account; the backfill stops once it reaches this moment.
+   */
+  accountStart?: string;
+  /**
+   * Lower bound of the oldest date window already backed up; the next window ends here.
+   */
+  backfillUntil?: string;
+  /**
+   * Whether the backfill walked back to `accountStart`.
+   */
+  complete: boolean;
+  /**
+   * Newest completion time seen; later syncs only ask for completions after it.
+   */
+  checkpoint?: string;
+};
+
+export type TaskSnapshot = {
+  status: "active" | "completed";
+  updatedAt?: string;
+};
+
+/**
+ * Builds the storage key for the current graph under the given prefix.
+ * Graph names lose their dots, so `graph.account.json` never collides with another graph.
+ *
+ * @param prefix Storage folder for the kind of state being persisted.
+ * @param account Account name; undefined for the default account.
+ */
+async function graphStorageKey(prefix: string, account?: string) {
+  const graph = await logseq.App.getCurrentGraph().catch(() => null);
+  const name = graph?.name ? graph.name.replace(/[^\w-]/g, "_") : "default";
+  return account ? `${prefix}/${name}.${account}.json` : `${prefix}/${name}.json`;
+}
+
+/**
+ * Reads a JSON object stored for the current graph, returning undefined when absent or invalid.
+ *
+ * @param prefix Storage folder for the kind of state being read.
+ * @param account Account name; undefined for the default account.
+ */
+async function readGraphJson(prefix: string, account?: string): Promise<Record<string, unknown> | undefined> {
+  try {
+    const key = await graphStorageKey(prefix, account);
+    const raw: unknown = await logseq.FileStorage.getItem(key);
+    if (typeof raw !== "string" || raw.trim().length === 0) {
+      return undefined;
+    }
+
+    const parsed: unknown = JSON.parse(raw);
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      logWarn("ignoring malformed plugin storage", { prefix });
+      return undefined;
+    }
+    return parsed as Record<string, unknown>;
+  } catch (error) {
+    logError("failed to read plugin storage", error);
+    return undefined;
+  }
+}
+
+/**
+ * Persists a JSON value for the current graph.
+ *
+ * @param prefix Storage folder for the kind of state being written.
+ * @param value Serializable value to store.
+ * @param account Account name; undefined for the default account.
+ */
+async function writeGraphJson(prefix: string, value: unknown, account?: string) {
+  const key = await graphStorageKey(prefix, account);
+  await logseq.FileStorage.setItem(key, JSON.stringify(value));
+}
+
+/**
+ * Reads the persisted incremental sync state, returning an empty state when absent or invalid.
+ *
+ * @param account Account whose state is read; undefined for the default account.
+ */
+export async function readSyncState(account?: string): Promise<SyncState> {
+  const candidate = await readGraphJson(SYNC_STATE_STORAGE_PREFIX, account);
+  if (!candidate) {
+    return {};
+  }
+
+  return {
+    syncToken: typeof candidate.syncToken === "string" ? candidate.syncToken : undefined,
+    projects: Array.isArray(candidate.projects) ? (candidate.projects as TodoistProject[]) : undefined,
+    labels: Array.isArray(candidate.labels) ? (candidate.labels as TodoistLabel[]) : undefined,
+    sections: Array.isArray(candidate.sections) ? (candidate.sections as TodoistSection[]) : undefined,
+  };
+}
+
+/**
+ * Persists the incremental sync state for the current graph.
+ *
+ * @param state State to store.
+ * @param account Account whose state is written; undefined for the default account.
+ */
+export async function writeSyncState(state: SyncState, account?: string) {
+  await writeGraphJson(SYNC_STATE_STORAGE_PREFIX, state, account);
+}
+
+/**
+ * Removes the persisted sync state so the next run performs a full sync.
+ *
+ * @param account Account whose state is removed; undefined for the default account.
+ */
+export async function clearSyncState(account?: string) {
+  try {
+    const key = await graphStorageKey(SYNC_STATE_STORAGE_PREFIX, account);
+    await logseq.FileStorage.removeItem(key);
+  } catch (error) {
+    logError("failed to clear sync state", error);
+  }
+}
+
+/**
+ * Reads the last synced status of each task, keyed by Todoist id.
+ *
+ * @param account Account whose state is read; undefined for the default account.
+ */
+export async function readTaskSnapshots(account?: string): Promise<Map<string, TaskSnapshot>> {
+  const map = new Map<string, TaskSnapshot>();
+  const candidate = await readGraphJson(TASK_SNAPSHOTS_STORAGE_PREFIX, account);
+  for (const [id, value] of Object.entries(candidate ?? {})) {
+    if (!value || typeof value !== "object") {
+      continue;
+    }
+    const { status, updatedAt } = value as Record<string, unknown>;
+    if (status !== "active" && status !== "completed") {
+      continue;
+    }
+    map.set(id, { status, updatedAt: typeof updatedAt === "string" ? updatedAt : undefined });
+  }
+  return map;
+}
+
+/**
+ * Persists the last synced status of each task for the current graph.
+ *
+ * @param snapshots Task snapshots keyed by Todoist id.
+ * @param account Account whose state is written; undefined for the default account.
+ */
+export async function writeTaskSnapshots(snapshots: Map<string, TaskSnapshot>, account?: string) {
+  await writeGraphJson(TASK_SNAPSHOTS_STORAGE_PREFIX, Object.fromEntries(snapshots), account);
+}
+
+/**
+ * Reads blocks sent to Todoist from outside the backup pages, keyed by Todoist id.
+ *
+ * @param account Account whose state is read; undefined for the default account.
+ */
+export async function readAdoptedBlocks(account?: string): Promise<Map<string, string>> {
+  const map = new Map<string, string>();
+  const candidate = await readGraphJson(ADOPTED_BLOCKS_STORAGE_PREFIX, account);
+  for (const [id, uuid] of Object.entries(candidate ?? {})) {
+    if (typeof uuid === "string" && uuid.length > 0) {
+      map.set(id, uuid);
+    }
+  }
+  return map;
+}
+
+/**
+ * Remembers the block a task was created from so syncs update it instead of duplicating it.
+ *
+ * @param taskId Identifier of the created Todoist task.
+ * @param uuid Block the task was created from.
+ * @param account Account the task was created in; undefined for the default account.
+ */
+export async function rememberAdoptedBlock(taskId: string, uuid: string, account?: string) {
+  const adopted = await readAdoptedBlocks(account);
+  adopted.set(taskId, uuid);
+  await writeGraphJson(ADOPTED_BLOCKS_STORAGE_PREFIX, Object.fromEntries(adopted), account);
+}
+
+/**
+ * Reads the stored asset file name of each downloaded attachment, keyed by Todoist file URL.
+ */
+export async function readAttachmentIndex(): Promise<Map<string, string>> {
+  const map = new Map<string, string>();
+  const candidate = await readGraphJson(ATTACHMENT_INDEX_STORAGE_PREFIX);
+  for (const [url, fileName] of Object.entries(candidate ?? {})) {
+    if (typeof fileName === "string" && fileName.length > 0) {
+      map.set(url, fileName);
+    }
+  }
+  return map;
+}
+
+/**
+ * Persists the attachment index for the current graph.
+ *
+ * @param index Asset file names keyed by Todoist file URL.
+ */
+export async function writeAttachmentIndex(index: Map<string, string>) {
+  await writeGraphJson(ATTACHMENT_INDEX_STORAGE_PREFIX, Object.fromEntries(index));
+}
+
+/**
+ * Reads cached comments and the comment sync token, returning an empty cache when absent.
+ *
+ * @param account Account whose state is read; undefined for the default account.
+ */
+export async function readCommentCache(account?: string): Promise<CommentCache> {
+  const candidate = await readGraphJson(COMMENT_CACHE_STORAGE_PREFIX, account);
+  const cache: CommentCache = { synced: new Map(), fetched: new Map(), projects: new Map() };
+  if (!candidate) {
+    return cache;
+  }
+
+  cache.syncToken = typeof candidate.syncToken === "string" ? candidate.syncToken : undefined;
+  const synced = candidate.synced && typeof candidate.synced === "object" ? candidate.synced : {};
+  for (const [taskId, comments] of Object.entries(synced)) {
+    if (Array.isArray(comments)) {
+      cache.synced.set(taskId, comments as TodoistComment[]);
+    }
+  }
+  const fetched = candidate.fetched && typeof candidate.fetched === "object" ? candidate.fetched : {};
+  for (const [taskId, entry] of Object.entries(fetched)) {
+    const { version, comments, fetchedAt } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof version === "string" && Array.isArray(comments)) {
+      cache.fetched.set(taskId, {
+        version,
+        comments: comments as TodoistComment[],
+        fetchedAt: typeof fetchedAt === "string" ? fetchedAt : undefined,
+      });
+    }
+  }
+  const projects = candidate.projects && typeof candidate.projects === "object" ? candidate.projects : {};
+  for (const [projectId, comments] of Object.entries(projects)) {
+    if (Array.isArray(comments)) {
+      cache.projects.set(projectId, comments as TodoistProjectComment[]);
+    }
+  }
+  return cache;
+}
+
+/**
+ * Persists the comment cache for the current graph.
+ *
+ * @param cache Cache to store.
+ * @param account Account whose state is written; undefined for the default account.
+ */
+export async function writeCommentCache(cache: CommentCache, account?: string) {
+  await writeGraphJson(
+    COMMENT_CACHE_STORAGE_PREFIX,
+    {
+      syncToken: cache.syncToken,
+      synced: Object.fromEntries(cache.synced),
+      fetched: Object.fromEntries(cache.fetched),
+      projects: Object.fromEntries(cache.projects),
+    },
+    account
+  );
+}
+
+/**
+ * Drops cached comments so the next sync downloads them all again.
+ *
+ * @param account Account whose cache is dropped; undefined for the default account.
+ */
+export async function clearCommentCache(account?: string) {
+  try {
+    const key = await graphStorageKey(COMMENT_CACHE_STORAGE_PREFIX, account);
+    await logseq.FileStorage.removeItem(key);
+  } catch (error) {
+    logError("failed to clear comment cache", error);
+  }
+}
+
+/**
+ * Reads the completed-history backfill progress, returning a fresh state when absent or invalid.
+ *
+ * @param account Account whose state is read; undefined for the default account.
+ */
+export async function readCompletedHistoryState(account?: string): Promise<CompletedHistoryState> {
+  const candidate = await readGraphJson(COMPLETED_HISTORY_STORAGE_PREFIX, account);
+  const readDate = (value: unknown) =>
+    typeof value === "string" && !Number.isNaN(Date.parse(value)) ? value : undefined;
+
+  return {
+    accountStart: readDate(candidate?.accountStart),
+    backfillUntil: readDate(candidate?.backfillUntil),
+    complete: candidate?.complete === true,
+    checkpoint: readDate(candidate?.checkpoint),
+  };
+}
+
+/**
+ * Persists the completed-history backfill progress.
+ *
+ * @param state Progress reached by the latest sync.
+ * @param account Account whose state is written; undefined for the default account.
+ */
+export async function writeCompletedHistoryState(state: CompletedHistoryState, account?: string) {
+  await writeGraphJson(COMPLETED_HISTORY_STORAGE_PREFIX, state, account);
+}
+
+/**
+ * Reads the page layout the backup pages were last written with.
+ * Graphs synced before layouts existed use date pages.
+ *
+ * @param account Account whose state is read; undefined for the default account.
+ */
+export async function readPageLayoutState(account?: string): Promise<PageLayout> {
+  const candidate = await readGraphJson(PAGE_LAYOUT_STORAGE_PREFIX, account);
+  return PAGE_LAYOUTS.find((layout) => layout === candidate?.layout) ?? "date";
+}
+
+/**
+ * Persists the page layout used by the latest sync.
+ *
+ * @param layout Layout the backup pages now follow.
+ * @param account Account whose state is written; undefined for the default account.
+ */
+export async function writePageLayoutState(layout: PageLayout, account?: string) {
+  await writeGraphJson(PAGE_LAYOUT_STORAGE_PREFIX, { layout }, account);
+}
@@ -0,0 +1,129 @@
+/**
+ * Records one entry per sync run on the `{page_name}/Sync Log` page.
+ */
+
+import type { WriteStats } from "./blocks";
+import {
+  SYNC_LOG_MAX_ENTRIES,
+  SYNC_LOG_MAX_PAGE_LINKS,
+  SYNC_LOG_PAGE_SUFFIX,
+  SYNC_LOG_RUN_PROPERTY,
+} from "./constants";
+import type { RequestCounters } from "./request";
+
+export type SyncLogEntry = {
+  trigger: "manual" | "auto";
+  mode: "full" | "incremental";
+  startedAt: Date;
+  durationMs: number;
+  /**
+   * Tasks received from Todoist, before title exclusions.
+   */
+  fetched?: number;
+  /**
+   * Block changes; absent when the run failed before writing.
+   */
+  stats?: WriteStats;
+  /**
+   * Todoist requests made during the run.
+   */
+  requests: RequestCounters;
+  /**
+   * Errors logged during the run, including the failure itself.
+   */
+  errors: number;
+  /**
+   * Message of the error that aborted the run.
+   */
+  failure?: string;
+};
+
+/**
+ * Adds an entry at the top of the sync log page and drops the oldest entries beyond
+ * `SYNC_LOG_MAX_ENTRIES`. Blocks without `todoist-sync-run::` are left alone.
+ *
+ * @param pagePrefix Base page name prefix from settings.
+ * @param entry Statistics of the finished run.
+ */
+export async function appendSyncLog(pagePrefix: string, entry: SyncLogEntry) {
+  const pageName = `${pagePrefix}/${SYNC_LOG_PAGE_SUFFIX}`;
+  let page = await logseq.Editor.getPage(pageName);
+  if (!page) {
+    await logseq.Editor.createPage(pageName, {}, { createFirstBlock: true, redirect: false });
+    page = await logseq.Editor.getPage(pageName);
+  }
+  if (!page) {
+    throw new Error(`Failed to create or retrieve page "${pageName}".`);
+  }
+
+  const content = syncLogContent(entry);
+  const tree = (await logseq.Editor.getPageBlocksTree(page.uuid)) ?? [];
+  const [first] = tree;
+  if (!first) {
+    await logseq.Editor.appendBlockInPage(page.uuid, content);
+  } else if (tree.length === 1 && !(first.content ?? "").trim()) {
+    await logseq.Editor.updateBlock(first.uuid, content);
+  } else {
+    await logseq.Editor.insertBlock(first.uuid, content, { before: true, sibling: true });
+  }
+
+  const runPattern = new RegExp(`^${SYNC_LOG_RUN_PROPERTY}::`, "m");
+  const entries = tree.filter((block) => runPattern.test(block.content ?? ""));
+  // The new entry is not part of `tree`, so one fewer old entry is kept
+  for (const block of entries.slice(SYNC_LOG_MAX_ENTRIES - 1)) {
+    await logseq.Editor.removeBlock(block.uuid);
+  }
+}
+
+/**
+ * Formats a sync log entry as a block with one property per statistic.
+ *
+ * @param entry Statistics of the finished run.
+ */
+function syncLogContent(entry: SyncLogEntry) {
+  const { stats, requests } = entry;
+  const status = entry.failure ? "❌" : "✅";
+  const trigger = entry.trigger === "manual" ? "Manual" : "Automatic";
+  const duration = `${(entry.durationMs / 1000).toFixed(1)} s`;
+  const lines = [
+    `${status} ${trigger} ${entry.mode} sync · ${formatLocalTimestamp(entry.startedAt)} · ${duration}`,
+    `${SYNC_LOG_RUN_PROPERTY}:: ${entry.startedAt.toISOString()}`,
+    `sync-trigger:: ${entry.trigger}`,
+    `sync-mode:: ${entry.mode}`,
+    `sync-duration:: ${duration}`,
+  ];
+
+  if (entry.fetched !== undefined) {
+    lines.push(`sync-tasks-fetched:: ${entry.fetched}`);
+  }
+  if (stats) {
+    lines.push(
+      `sync-created:: ${stats.created}`,
+      `sync-updated:: ${stats.updated}`,
+      `sync-removed:: ${stats.retired + stats.purged} (${stats.retired} marked deleted, ${stats.purged} purged)`,
+      `sync-moved:: ${stats.moved}`
+    );
+    const pages = [...stats.pages].sort();
+    if (pages.length > 0) {
+      const links = pages.slice(0, SYNC_LOG_MAX_PAGE_LINKS).map((page) => `[[${page}]]`);
+      const more = pages.length > links.length ? ` and ${pages.length - links.length} more` : "";
+      lines.push(`sync-pages:: ${links.join(", ")}${more}`);
+    }
+  }
+
+  lines.push(`sync-api-calls:: ${requests.requests} (${requests.retries} retries, ${requests.failures} failed)`);
+  lines.push(`sync-errors:: ${entry.errors}`);
+  if (entry.failure) {
+    lines.push(`sync-failure:: ${entry.failure.replace(/\s+/g, " ").trim()}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Formats a date as local `YYYY-MM-DD HH:MM`.
+ */
+function formatLocalTimestamp(date: Date) {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
@@ -0,0 +1,176 @@
+/**
+ * Small template language for user-defined block layouts: `{{name}}` placeholders and
+ * `{{#if name}}...{{else}}...{{/if}}` conditionals, with `{{#unless name}}` for the negation.
+ * Other `{{...}}` macros such as `{{embed [[page]]}}` are copied as they are.
+ */
+
+export type TemplateValues = Record<string, string | undefined>;
+
+type TemplateNode =
+  | { kind: "text"; text: string }
+  | { kind: "value"; name: string }
+  | { kind: "condition"; name: string; negated: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+/**
+ * A parsed template, ready for `renderTemplate()`.
+ */
+export type BlockTemplate = {
+  source: string;
+  nodes: TemplateNode[];
+};
+
+type OpenCondition = Extract<TemplateNode, { kind: "condition" }> & {
+  inElse: boolean;
+};
+
+/**
+ * Raised when a template cannot be parsed or would produce unusable blocks.
+ */
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+const TAG_PATTERN = /\{\{([^{}]*)\}\}/g;
+const FIELD_PATTERN = /^[\w-]+$/;
+
+/**
+ * Parses a template, rejecting unknown placeholders and unbalanced conditionals.
+ *
+ * @param source Template text from the settings.
+ * @param fields Placeholder names the template may use.
+ */
+export function compileTemplate(source: string, fields: readonly string[]): BlockTemplate {
+  const known = new Set(fields);
+  const requireField = (name: string | undefined) => {
+    if (!name || !known.has(name)) {
+      throw new TemplateError(`Unknown placeholder "${name ?? ""}"; use one of ${fields.join(", ")}.`);
+    }
+    return name;
+  };
+
+  const root: TemplateNode[] = [];
+  const open: OpenCondition[] = [];
+  const target = () => {
+    const current = open[open.length - 1];
+    if (!current) {
+      return root;
+    }
+    return current.inElse ? current.otherwise : current.then;
+  };
+
+  let position = 0;
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > position) {
+      target().push({ kind: "text", text: source.slice(position, index) });
+    }
+    position = index + match[0].length;
+
+    const [keyword, name, ...rest] = match[1].trim().split(/\s+/);
+    if (keyword === "#if" || keyword === "#unless") {
+      if (rest.length > 0) {
+        throw new TemplateError(`"${match[0]}" takes a single placeholder name.`);
+      }
+      const condition: OpenCondition = {
+        kind: "condition",
+        name: requireField(name),
+        negated: keyword === "#unless",
+        then: [],
+        otherwise: [],
+        inElse: false,
+      };
+      target().push(condition);
+      open.push(condition);
+    } else if (keyword === "else" && !name) {
+      const current = open[open.length - 1];
+      if (!current || current.inElse) {
+        throw new TemplateError("{{else}} must appear once inside {{#if}} or {{#unless}}.");
+      }
+      current.inElse = true;
+    } else if ((keyword === "/if" || keyword === "/unless") && !name) {
+      const current = open.pop();
+      if (!current || current.negated !== (keyword === "/unless")) {
+        throw new TemplateError(`${match[0]} has no matching opening tag.`);
+      }
+    } else if (!name && FIELD_PATTERN.test(keyword)) {
+      target().push({ kind: "value", name: requireField(keyword) });
+    } else {
+      target().push({ kind: "text", text: match[0] });
+    }
+  }
+
+  if (open.length > 0) {
+    throw new TemplateError(`{{#${open[open.length - 1].negated ? "unless" : "if"}}} is never closed.`);
+  }
+  if (position < source.length) {
+    root.push({ kind: "text", text: source.slice(position) });
+  }
+  return { source, nodes: root };
+}
+
+/**
+ * Checks that a template always renders `property:: {{field}}` (or `property:: [{{field}}](...)`)
+ * on a line of its own, outside every conditional, so no combination of values can drop it.
+ *
+ * @param template Template from `compileTemplate()`.
+ * @param property Property name expected at the start of the line.
+ * @param field Placeholder that must be the property value.
+ */
+export function hasUnconditionalProperty(template: BlockTemplate, property: string, field: string) {
+  const prefix = new RegExp(`(?:^|\\n)[ \\t]*${property}::[ \\t]*(\\[)?$`, "i");
+  const { nodes } = template;
+  return nodes.some((node, index) => {
+    if (node.kind !== "value" || node.name !== field) {
+      return false;
+    }
+    const before = nodes[index - 1];
+    const match = before?.kind === "text" ? before.text.match(prefix) : null;
+    // The line must start inside the text node, or that node must open the template
+    if (!match || (!match[0].startsWith("\n") && index - 1 > 0)) {
+      return false;
+    }
+    const after = nodes[index + 1];
+    if (match[1]) {
+      return after?.kind === "text" && after.text.startsWith("](");
+    }
+    if (!after) {
+      return true;
+    }
+    const lastNode = index + 2 === nodes.length;
+    return after.kind === "text" && (/^[ \t]*\r?\n/.test(after.text) || (lastNode && !after.text.trim()));
+  });
+}
+
+/**
+ * Renders a template. Empty values count as false in conditionals, trailing spaces are
+ * trimmed, and lines left blank are dropped, so optional properties vanish cleanly.
+ *
+ * @param template Template from `compileTemplate()`.
+ * @param values Placeholder values; missing ones render as empty text.
+ */
+export function renderTemplate(template: BlockTemplate, values: TemplateValues) {
+  const render = (nodes: TemplateNode[]): string =>
+    nodes
+      .map((node) => {
+        switch (node.kind) {
+          case "text":
+            return node.text;
+          case "value":
+            return values[node.name] ?? "";
+          case "condition": {
+            const present = Boolean(values[node.name]?.trim());
+            return render(present !== node.negated ? node.then : node.otherwise);
+          }
+        }
+      })
+      .join("");
+
+  return render(template.nodes)
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd())
+    .filter((line) => line.trim().length > 0)
+    .join("\n");
+}
@@ -1,10 +1,12 @@
 import {
+  ATTACHMENT_TIMEOUT_MS,
   TODOIST_API_BASE,
   ISO_DATE_PATTERN,
   TODOIST_REST_API_BASE,
   TODOIST_SYNC_API_BASE,
 } from "./constants";
 import { logError, logDebug } from "./logger";
+import { todoistFetch } from "./request";
 
 export type TodoistId = string | number;
 
@@ -13,6 +15,17 @@ export type TodoistDue = {
   date?: string | null;
   datetime?: string | null;
   timezone?: string | null;
+  is_recurring?: boolean | null;
+};
+
+export type TodoistDuration = {
+  amount?: number | null;
+  unit?: "minute" | "day" | string | null;
+};
+
+export type TodoistDeadline = {
+  date?: string | null;
+  lang?: string | null;
 };
 
 export type TodoistTask = {
@@ -20,10 +33,29 @@ export type TodoistTask = {
   content: string;
   description?: string | null;
   project_id?: TodoistId | null;
+  section_id?: TodoistId | null;
   labels?: Array<TodoistId | string>;
   label_ids?: Array<TodoistId>;
   due?: TodoistDue | null;
   url?: string;
+  parent_id?: TodoistId | null;
+  child_order?: number | null;
+  priority?: number | null;
+  duration?: TodoistDuration | null;
+  deadline?: TodoistDeadline | null;
+  created_at?: string | null;
+  creator_id?: TodoistId | null;
+  updated_at?: string | null;
+  note_count?: number | null;
+};
+
+export type TodoistFileAttachment = {
+  resource_type?: string | null;
+  file_name?: string | null;
+  file_type?: string | null;
+  file_size?: number | null;
+  file_url?: string | null;
+  image?: string | null;
 };
 
 export type TodoistComment = {
@@ -31,6 +63,11 @@ export type TodoistComment = {
   task_id: TodoistId;
   content: string;
   posted_at: string | null;
+  attachment?: TodoistFileAttachment | null;
+  /**
+   * Graph-relative path of the downloaded attachment, set when attachments are stored as assets.
+   */
+  asset_path?: string;
 };
 
 type RawTodoistComment = {
@@ -38,6 +75,12 @@ type RawTodoistComment = {
   task_id?: TodoistId | null;
   content?: string | null;
   posted_at?: string | null;
+  file_attachment?: TodoistFileAttachment | null;
+  project_id?: TodoistId | null;
+};
+
+export type TodoistProjectComment = Omit<TodoistComment, "task_id"> & {
+  project_id: TodoistId;
 };
 
 export type TodoistCompletedItem = {
@@ -45,10 +88,13 @@ export type TodoistCompletedItem = {
   content?: string;
   description?: string | null;
   project_id?: TodoistId | null;
+  section_id?: TodoistId | null;
   labels?: Array<TodoistId | string>;
   label_ids?: Array<TodoistId>;
+  parent_id?: TodoistId | null;
   completed_at?: string | null;
   completed_date?: string | null;
+  note_count?: number | null;
   task?: Partial<TodoistTask> & { id?: TodoistId };
 };
 
@@ -64,6 +110,15 @@ export type TodoistBackupTask = TodoistTask & {
 export type TodoistProject = {
   id: TodoistId;
   name: string;
+  color?: string | null;
+  parent_id?: TodoistId | null;
+  child_order?: number | null;
+  is_archived?: boolean;
+  is_favorite?: boolean;
+  is_shared?: boolean;
+  inbox_project?: boolean;
+  view_style?: string | null;
+  description?: string | null;
 };
 
 export type TodoistLabel = {
@@ -71,12 +126,19 @@ export type TodoistLabel = {
   name: string;
 };
 
+export type TodoistSection = {
+  id: TodoistId;
+  name: string;
+  project_id?: TodoistId | null;
+};
+
 export type PaginatedResponse<T> = {
   data?: T[];
   items?: T[];
   tasks?: T[];
   projects?: T[];
   labels?: T[];
+  sections?: T[];
   results?: T[];
   next_cursor?: string | null;
 };
@@ -88,10 +150,69 @@ export type FetchPaginatedOptions = {
   body?: unknown;
 };
 
-export type FetchCommentsOptions = {
-  retryLimit?: number;
+export type TodoistTaskDraft = {
+  content: string;
+  description?: string;
+  project_id?: string;
+  labels?: string[];
+  priority?: number;
+  due_date?: string;
+  due_string?: string;
 };
 
+export type TodoistSyncItem = TodoistTask & {
+  checked?: boolean;
+  is_deleted?: boolean;
+  completed_at?: string | null;
+};
+
+type SyncResource<T> = T & { is_deleted?: boolean };
+
+type TodoistSyncResponse = {
+  sync_token?: string;
+  full_sync?: boolean;
+  items?: TodoistSyncItem[];
+  projects?: Array<SyncResource<TodoistProject>>;
+  labels?: Array<SyncResource<TodoistLabel>>;
+  sections?: Array<SyncResource<TodoistSection>>;
+  notes?: Array<SyncResource<RawTodoistComment> & { item_id?: TodoistId | null }>;
+  project_notes?: Array<SyncResource<RawTodoistComment>>;
+  user?: { joined_at?: string | null };
+};
+
+export type TodoistCommentChanges = {
+  syncToken: string;
+  fullSync: boolean;
+  comments: TodoistComment[];
+  deletedCommentIds: string[];
+  projectComments: TodoistProjectComment[];
+  deletedProjectCommentIds: string[];
+};
+
+export type TodoistSyncChanges = {
+  syncToken: string;
+  fullSync: boolean;
+  tasks: TodoistTask[];
+  completed: TodoistBackupTask[];
+  deletedTaskIds: string[];
+  projects: TodoistProject[];
+  deletedProjectIds: string[];
+  labels: TodoistLabel[];
+  deletedLabelIds: string[];
+  sections: TodoistSection[];
+  deletedSectionIds: string[];
+};
+
+/**
+ * Raised when Todoist no longer accepts a stored sync token.
+ */
+export class SyncTokenRejectedError extends Error {
+  constructor(status: number) {
+    super(`Todoist rejected the stored sync token (status ${status})`);
+    this.name = "SyncTokenRejectedError";
+  }
+}
+
 /**
  * Fetches paginated resources from Todoist REST endpoints.
  *
@@ -123,7 +244,7 @@ export async function fetchPaginated<T>(
       url.searchParams.set("cursor", cursor);
     }
 
-    const response = await fetch(url.toString(), {
+    const response = await todoistFetch(url.toString(), {
       method,
       headers: {
         Authorization: `Bearer ${token}`,
@@ -153,61 +274,48 @@ export async function fetchPaginated<T>(
 
 /**
  * Fetches and sanitizes comments for the specified Todoist tasks.
+ * Requests run in parallel up to the request layer's concurrency cap, which also
+ * retries transient failures; tasks whose comments still fail are logged and skipped.
  *
  * @param taskIds Identifiers of tasks whose comments will be requested.
  * @param token Todoist API token.
- * @param options Optional retry configuration for transient failures.
  */
 export async function fetchTaskComments(
   taskIds: TodoistId[],
-  token: string,
-  options: FetchCommentsOptions = {}
+  token: string
 ): Promise<Map<string, TodoistComment[]>> {
   const map = new Map<string, TodoistComment[]>();
   if (taskIds.length === 0) {
     return map;
   }
 
-  const retryLimit = Math.max(0, options.retryLimit ?? 1);
   const idsToFetch = taskIds
     .map((id) => String(id))
     .filter((value, index, self) => self.indexOf(value) === index);
-  const queue = [...idsToFetch];
-  const attempts = new Map<string, number>();
 
   logDebug("fetch_comments_start", { taskCount: idsToFetch.length });
 
-  while (queue.length > 0) {
-    const taskId = queue.shift();
-    if (!taskId) {
-      continue;
-    }
-
-    try {
-      const comments = await fetchPaginated<TodoistComment>("/comments", token, {
-        searchParams: {
-          task_id: taskId,
-        },
-        baseUrl: TODOIST_REST_API_BASE,
-      });
-
-      const sanitized = comments
-        .map((comment) => sanitizeComment(comment, taskId))
-        .filter((comment): comment is TodoistComment => Boolean(comment));
-
-      map.set(taskId, sanitized);
-    } catch (error) {
-      const currentAttempts = attempts.get(taskId) ?? 0;
-      const nextAttempts = currentAttempts + 1;
-      attempts.set(taskId, nextAttempts);
-      if (nextAttempts <= retryLimit) {
-        queue.push(taskId);
-      } else {
+  await Promise.all(
+    idsToFetch.map(async (taskId) => {
+      try {
+        const comments = await fetchPaginated<RawTodoistComment>("/comments", token, {
+          searchParams: {
+            task_id: taskId,
+          },
+          baseUrl: TODOIST_REST_API_BASE,
+        });
+
+        const sanitized = comments
+          .map((comment) => sanitizeComment(comment, taskId))
+          .filter((comment): comment is TodoistComment => Boolean(comment));
+
+        map.set(taskId, sanitized);
+      } catch (error) {
         const message = error instanceof Error ? error.message : String(error);
         logError("failed to fetch comments for task", { taskId, error: message });
       }
-    }
-  }
+    })
+  );
 
   logDebug("fetch_comments_completed", {
     tasksWithComments: map.size,
@@ -217,6 +325,357 @@ export async function fetchTaskComments(
   return map;
 }
 
+/**
+ * Posts a Sync API request for the given resource types and validates the returned token.
+ *
+ * @param token Todoist API token.
+ * @param syncToken Token returned by the previous sync, or `"*"` for a full sync.
+ * @param resourceTypes Sync resources to request.
+ */
+async function requestSync(token: string, syncToken: string, resourceTypes: string[]) {
+  const body = new URLSearchParams({
+    sync_token: syncToken,
+    resource_types: JSON.stringify(resourceTypes),
+  });
+
+  const response = await todoistFetch(`${TODOIST_API_BASE}/sync`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: body.toString(),
+  });
+
+  if (!response.ok) {
+    if (syncToken !== "*" && (response.status === 400 || response.status === 410)) {
+      throw new SyncTokenRejectedError(response.status);
+    }
+    throw new Error(`Error ${response.status} while fetching /sync`);
+  }
+
+  const payload = (await response.json()) as TodoistSyncResponse;
+  const nextToken = payload.sync_token;
+  if (typeof nextToken !== "string" || nextToken.length === 0) {
+    throw new Error("Todoist sync response did not include a sync token");
+  }
+  return { payload, nextToken };
+}
+
+/**
+ * Requests task and project comments (Sync API `notes` and `project_notes`) added, changed,
+ * or deleted since the given sync token. The Sync API only reports comments of active tasks.
+ *
+ * @param token Todoist API token.
+ * @param syncToken Token returned by the previous comment sync, or `"*"` for all comments.
+ */
+export async function fetchCommentChanges(token: string, syncToken: string): Promise<TodoistCommentChanges> {
+  const { payload, nextToken } = await requestSync(token, syncToken, ["notes", "project_notes"]);
+  const changes: TodoistCommentChanges = {
+    syncToken: nextToken,
+    fullSync: Boolean(payload.full_sync) || syncToken === "*",
+    comments: [],
+    deletedCommentIds: [],
+    projectComments: [],
+    deletedProjectCommentIds: [],
+  };
+
+  for (const note of payload.notes ?? []) {
+    if (!note || note.id === null || note.id === undefined) {
+      continue;
+    }
+    if (note.is_deleted) {
+      changes.deletedCommentIds.push(String(note.id));
+      continue;
+    }
+    const comment = sanitizeComment({ ...note, task_id: note.task_id ?? note.item_id }, "");
+    if (comment && comment.task_id !== "") {
+      changes.comments.push(comment);
+    }
+  }
+
+  for (const note of payload.project_notes ?? []) {
+    if (!note || note.id === null || note.id === undefined) {
+      continue;
+    }
+    if (note.is_deleted) {
+      changes.deletedProjectCommentIds.push(String(note.id));
+      continue;
+    }
+    const comment = sanitizeProjectComment(note);
+    if (comment) {
+      changes.projectComments.push(comment);
+    }
+  }
+
+  logDebug("fetch_comment_changes", {
+    fullSync: changes.fullSync,
+    comments: changes.comments.length,
+    deleted: changes.deletedCommentIds.length,
+    projectComments: changes.projectComments.length,
+  });
+
+  return changes;
+}
+
+/**
+ * Requests tasks, projects, labels, and sections changed since the given sync token.
+ * Use `"*"` as token to receive a full snapshot of active resources.
+ *
+ * @param token Todoist API token.
+ * @param syncToken Token returned by the previous sync, or `"*"` for a full sync.
+ */
+export async function fetchSyncChanges(token: string, syncToken: string): Promise<TodoistSyncChanges> {
+  const { payload, nextToken } = await requestSync(token, syncToken, ["items", "projects", "labels", "sections"]);
+
+  const changes: TodoistSyncChanges = {
+    syncToken: nextToken,
+    fullSync: Boolean(payload.full_sync) || syncToken === "*",
+    tasks: [],
+    completed: [],
+    deletedTaskIds: [],
+    projects: [],
+    deletedProjectIds: [],
+    labels: [],
+    deletedLabelIds: [],
+    sections: [],
+    deletedSectionIds: [],
+  };
+
+  for (const item of payload.items ?? []) {
+    if (!item || item.id === null || item.id === undefined) {
+      continue;
+    }
+    const { checked, is_deleted: isDeleted, completed_at: completedAt, ...task } = item;
+    if (isDeleted) {
+      changes.deletedTaskIds.push(String(item.id));
+    } else if (checked) {
+      changes.completed.push({
+        ...task,
+        completed: true,
+        completed_at: completedAt ?? null,
+        completed_date: null,
+      });
+    } else {
+      changes.tasks.push(task);
+    }
+  }
+
+  for (const project of payload.projects ?? []) {
+    if (project.is_deleted) {
+      changes.deletedProjectIds.push(String(project.id));
+    } else {
+      changes.projects.push({
+        id: project.id,
+        name: project.name,
+        color: project.color ?? null,
+        parent_id: project.parent_id ?? null,
+        child_order: project.child_order ?? null,
+        is_archived: project.is_archived,
+        is_favorite: project.is_favorite,
+        is_shared: project.is_shared,
+        inbox_project: project.inbox_project,
+        view_style: project.view_style ?? null,
+        description: project.description ?? null,
+      });
+    }
+  }
+
+  for (const label of payload.labels ?? []) {
+    if (label.is_deleted) {
+      changes.deletedLabelIds.push(String(label.id));
+    } else {
+      changes.labels.push({ id: label.id, name: label.name });
+    }
+  }
+
+  for (const section of payload.sections ?? []) {
+    if (section.is_deleted) {
+      changes.deletedSectionIds.push(String(section.id));
+    } else {
+      changes.sections.push({ id: section.id, name: section.name, project_id: section.project_id ?? null });
+    }
+  }
+
+  logDebug("fetch_sync_changes", {
+    fullSync: changes.fullSync,
+    tasks: changes.tasks.length,
+    completed: changes.completed.length,
+    deletedTasks: changes.deletedTaskIds.length,
+    projects: changes.projects.length,
+    labels: changes.labels.length,
+    sections: changes.sections.length,
+  });
+
+  return changes;
+}
+
+/**
+ * Fetches a single task, including completed ones, returning undefined when it no longer exists.
+ *
+ * @param token Todoist API token.
+ * @param taskId Identifier of the task to fetch.
+ */
+export async function fetchTask(token: string, taskId: string): Promise<TodoistSyncItem | undefined> {
+  const response = await todoistFetch(`${TODOIST_API_BASE}/tasks/${encodeURIComponent(taskId)}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (response.status === 404) {
+    return undefined;
+  }
+  if (!response.ok) {
+    throw new Error(`Error ${response.status} while fetching task ${taskId}`);
+  }
+
+  return (await response.json()) as TodoistSyncItem;
+}
+
+/**
+ * Completes or reopens a Todoist task.
+ *
+ * @param token Todoist API token with write access.
+ * @param taskId Identifier of the task to update.
+ * @param action `close` to complete the task, `reopen` to make it active again.
+ */
+export async function updateTaskCompletion(token: string, taskId: string, action: "close" | "reopen") {
+  const response = await todoistFetch(`${TODOIST_API_BASE}/tasks/${encodeURIComponent(taskId)}/${action}`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Error ${response.status} while trying to ${action} task ${taskId}`);
+  }
+
+  logDebug("task_completion_updated", { taskId, action });
+}
+
+/**
+ * Creates a Todoist task from a draft.
+ *
+ * @param token Todoist API token with write access.
+ * @param draft Task fields to send.
+ */
+export async function createTask(token: string, draft: TodoistTaskDraft): Promise<TodoistTask> {
+  const response = await todoistFetch(`${TODOIST_API_BASE}/tasks`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(draft),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Error ${response.status} while creating task`);
+  }
+
+  const task = (await response.json()) as TodoistTask;
+  logDebug("task_created", { taskId: task.id, labels: draft.labels?.length ?? 0 });
+  return task;
+}
+
+/**
+ * Downloads a comment attachment. Files uploaded to Todoist require the API token.
+ *
+ * @param token Todoist API token.
+ * @param url Attachment `file_url`.
+ */
+export async function downloadAttachment(token: string, url: string): Promise<ArrayBuffer> {
+  const response = await todoistFetch(
+    url,
+    {
+      headers: {
+        Authorization: `Bearer ${token}`,
+      },
+    },
+    { timeoutMs: ATTACHMENT_TIMEOUT_MS }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Error ${response.status} while downloading attachment`);
+  }
+
+  return response.arrayBuffer();
+}
+
+/**
+ * Creates a Todoist project.
+ *
+ * @param token Todoist API token with write access.
+ * @param name Project name.
+ */
+export async function createProject(token: string, name: string): Promise<TodoistProject> {
+  const response = await todoistFetch(`${TODOIST_API_BASE}/projects`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ name }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Error ${response.status} while creating project`);
+  }
+
+  const project = (await response.json()) as TodoistProject;
+  logDebug("project_created", { projectId: project.id });
+  return project;
+}
+
+/**
+ * Adds a comment to a Todoist task.
+ *
+ * @param token Todoist API token with write access.
+ * @param taskId Task receiving the comment.
+ * @param content Comment text.
+ */
+export async function createComment(token: string, taskId: string, content: string) {
+  const response = await todoistFetch(`${TODOIST_API_BASE}/comments`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ task_id: taskId, content }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Error ${response.status} while creating comment on task ${taskId}`);
+  }
+}
+
+/**
+ * Applies changed and deleted resources onto a previously stored collection.
+ *
+ * @param previous Collection persisted by an earlier sync.
+ * @param changed Resources added or updated since then.
+ * @param deletedIds Identifiers removed since then.
+ */
+export function applyResourceChanges<T extends { id: TodoistId }>(
+  previous: T[],
+  changed: T[],
+  deletedIds: string[]
+): T[] {
+  const map = new Map<string, T>();
+  for (const item of previous) {
+    map.set(String(item.id), item);
+  }
+  for (const item of changed) {
+    map.set(String(item.id), item);
+  }
+  for (const id of deletedIds) {
+    map.delete(id);
+  }
+  return [...map.values()];
+}
+
 /**
  * Extracts data arrays from various Todoist pagination formats.
  */
@@ -231,6 +690,7 @@ export function extractItems<T>(body: PaginatedResponse<T> | T[]): T[] {
     body.tasks,
     body.projects,
     body.labels,
+    body.sections,
     body.results,
   ];
 
@@ -258,12 +718,56 @@ function sanitizeComment(comment: RawTodoistComment, fallbackTaskId: string): To
   if (taskId === null || taskId === undefined) {
     return undefined;
   }
-  const content = safeText(comment.content ?? "");
   return {
     id,
     task_id: taskId,
-    content,
+    content: comment.content ?? "",
     posted_at: comment.posted_at ?? null,
+    attachment: sanitizeAttachment(comment.file_attachment),
+  };
+}
+
+/**
+ * Validates and normalizes a raw project comment payload from Todoist.
+ */
+function sanitizeProjectComment(comment: RawTodoistComment): TodoistProjectComment | undefined {
+  const projectId = comment?.project_id;
+  if (projectId === null || projectId === undefined) {
+    return undefined;
+  }
+  const sanitized = sanitizeComment(comment, String(projectId));
+  if (!sanitized) {
+    return undefined;
+  }
+  return {
+    id: sanitized.id,
+    project_id: projectId,
+    content: sanitized.content,
+    posted_at: sanitized.posted_at,
+    attachment: sanitized.attachment,
+  };
+}
+
+/**
+ * Keeps the attachment metadata needed to link or download a comment file.
+ *
+ * @param attachment Raw `file_attachment` returned by Todoist.
+ */
+function sanitizeAttachment(attachment: TodoistFileAttachment | null | undefined): TodoistFileAttachment | null {
+  if (!attachment || typeof attachment !== "object") {
+    return null;
+  }
+  const fileUrl = typeof attachment.file_url === "string" ? attachment.file_url.trim() : "";
+  if (!fileUrl) {
+    return null;
+  }
+  return {
+    resource_type: attachment.resource_type ?? null,
+    file_name: safeText(attachment.file_name ?? "") || null,
+    file_type: attachment.file_type ?? null,
+    file_size: typeof attachment.file_size === "number" ? attachment.file_size : null,
+    file_url: fileUrl,
+    image: attachment.image ?? null,
   };
 }
 
@@ -320,10 +824,19 @@ export function normalizeCompletedTask(item: TodoistCompletedItem): TodoistBacku
     content: source.content ?? item.content ?? "",
     description: source.description ?? item.description ?? null,
     project_id: source.project_id ?? item.project_id ?? null,
+    section_id: source.section_id ?? item.section_id ?? null,
     labels: source.labels ?? item.labels,
     label_ids: source.label_ids ?? item.label_ids,
     due: source.due ?? null,
     url,
+    parent_id: source.parent_id ?? item.parent_id ?? null,
+    child_order: source.child_order ?? null,
+    priority: source.priority ?? null,
+    duration: source.duration ?? null,
+    deadline: source.deadline ?? null,
+    created_at: source.created_at ?? null,
+    creator_id: source.creator_id ?? null,
+    note_count: source.note_count ?? item.note_count ?? null,
     completed: true,
     completed_at: item.completed_at ?? null,
     completed_date: item.completed_date ?? null,
@@ -332,12 +845,16 @@ export function normalizeCompletedTask(item: TodoistCompletedItem): TodoistBacku
 
 /**
  * Retrieves completed Todoist tasks using the sync API.
+ *
+ * @param token Todoist API token.
+ * @param projectId Restricts the results to one project; archived projects are only returned this way.
  */
-export async function fetchCompletedTasks(token: string): Promise<TodoistBackupTask[]> {
+export async function fetchCompletedTasks(token: string, projectId?: string): Promise<TodoistBackupTask[]> {
   const items = await fetchPaginated<TodoistCompletedItem>("/completed/get_all", token, {
     baseUrl: TODOIST_SYNC_API_BASE,
     searchParams: {
       limit: "200",
+      project_id: projectId,
     },
   });
 
@@ -346,6 +863,105 @@ export async function fetchCompletedTasks(token: string): Promise<TodoistBackupT
     .filter((task): task is TodoistBackupTask => Boolean(task));
 }
 
+/**
+ * Retrieves tasks completed within a date range, paging through every result.
+ * Todoist caps each range, so callers walk long periods in windows.
+ *
+ * @param token Todoist API token.
+ * @param since Start of the range (inclusive).
+ * @param until End of the range (exclusive).
+ */
+export async function fetchCompletedWindow(token: string, since: Date, until: Date): Promise<TodoistBackupTask[]> {
+  const items = await fetchPaginated<TodoistSyncItem>("/tasks/completed/by_completion_date", token, {
+    searchParams: {
+      since: since.toISOString(),
+      until: until.toISOString(),
+      limit: "200",
+    },
+  });
+
+  return items
+    .map((item) => normalizeCompletedTask({ task: item, completed_at: item.completed_at }))
+    .filter((task): task is TodoistBackupTask => Boolean(task));
+}
+
+/**
+ * Reads when the Todoist account was created, or undefined when Todoist does not say.
+ *
+ * @param token Todoist API token.
+ */
+export async function fetchAccountStart(token: string) {
+  const { payload } = await requestSync(token, "*", ["user"]);
+  const joinedAt = payload.user?.joined_at;
+  return joinedAt && !Number.isNaN(Date.parse(joinedAt)) ? joinedAt : undefined;
+}
+
+/**
+ * Retrieves archived projects, which `/projects` and the Sync API omit.
+ *
+ * @param token Todoist API token.
+ */
+export async function fetchArchivedProjects(token: string): Promise<TodoistProject[]> {
+  const projects = await fetchPaginated<TodoistProject>("/projects/archived", token);
+  return projects.map((project) => ({ ...project, is_archived: true }));
+}
+
+/**
+ * Retrieves the completed tasks of archived projects, one project at a time.
+ *
+ * @param token Todoist API token.
+ * @param projects Archived projects whose history is needed.
+ */
+export async function fetchArchivedCompletedTasks(
+  token: string,
+  projects: TodoistProject[]
+): Promise<TodoistBackupTask[]> {
+  const batches = await Promise.all(projects.map((project) => fetchCompletedTasks(token, String(project.id))));
+  const tasks = batches.flat();
+  logDebug("fetch_archived_completed", { projects: projects.length, tasks: tasks.length });
+  return tasks;
+}
+
+/**
+ * Separates completions of recurring tasks from regular completed tasks. Completing a
+ * recurring task only moves its due date, so each completion is a past occurrence.
+ *
+ * @param active Active tasks; recurring ones mark their completions as occurrences.
+ * @param completed Completed entries, possibly several per recurring task.
+ * @param activeIsComplete Whether `active` lists every active task. A recurring task missing
+ *   from a complete list has ended, so its latest completion stays the completed task.
+ */
+export function splitRecurringOccurrences(
+  active: TodoistTask[],
+  completed: TodoistBackupTask[],
+  activeIsComplete: boolean
+) {
+  const activeRecurring = new Set(active.filter((task) => task.due?.is_recurring).map((task) => String(task.id)));
+  const regular: TodoistBackupTask[] = [];
+  const recurringById = new Map<string, TodoistBackupTask[]>();
+
+  for (const task of completed) {
+    const key = String(task.id);
+    if (activeRecurring.has(key) || task.due?.is_recurring) {
+      recurringById.set(key, [...(recurringById.get(key) ?? []), task]);
+    } else {
+      regular.push(task);
+    }
+  }
+
+  const occurrences: TodoistBackupTask[] = [];
+  for (const [key, entries] of recurringById.entries()) {
+    const unique = new Map(entries.map((entry) => [entry.completed_at ?? "", entry]));
+    const sorted = [...unique.values()].sort((a, b) => (b.completed_at ?? "").localeCompare(a.completed_at ?? ""));
+    if (activeIsComplete && !activeRecurring.has(key)) {
+      regular.push(sorted.shift()!);
+    }
+    occurrences.push(...sorted);
+  }
+
+  return { completed: regular, occurrences };
+}
+
 /**
  * Merges active and completed Todoist tasks into a unified task list.
  */
@@ -379,29 +995,6 @@ export function mergeBackupTasks(
   return [...map.values()];
 }
 
-/**
- * Converts due information into a numeric timestamp for sorting.
- */
-export function dueTimestamp(due?: TodoistDue | null) {
-  if (!due) return Number.POSITIVE_INFINITY;
-  const { datetime, date } = due;
-  if (datetime) {
-    const value = Date.parse(datetime);
-    if (Number.isFinite(value)) return value;
-  }
-  if (date) {
-    const value = Date.parse(date);
-    if (Number.isFinite(value)) return value;
-    const assumed = Date.parse(`${date}T00:00:00Z`);
-    if (Number.isFinite(assumed)) return assumed;
-  }
-  if (due.string) {
-    const value = Date.parse(due.string);
-    if (Number.isFinite(value)) return value;
-  }
-  return Number.POSITIVE_INFINITY;
-}
-
 /**
  * Formats Todoist due information into `YYYY-MM-DD` when possible.
  */
@@ -536,3 +1129,87 @@ export function convertInlineTodoistLabels(text: string): string {
 
   return result;
 }
+
+/**
+ * Extracts Logseq hashtags (`#tag`, `#[[multi word tag]]`) as Todoist label names,
+ * the inverse of `convertInlineTodoistLabels`. Tags are removed from the returned text;
+ * page links (`[[...]]`) are left untouched.
+ *
+ * @param text Text containing potential Logseq hashtags.
+ */
+export function extractLogseqTags(text: string): { text: string; tags: string[] } {
+  if (!text) return { text: "", tags: [] };
+
+  const tags: string[] = [];
+  const addTag = (tag: string) => {
+    const trimmed = tag.trim();
+    if (trimmed && !tags.includes(trimmed)) {
+      tags.push(trimmed);
+    }
+  };
+  const convertSegment = (segment: string) =>
+    segment.replace(/(?<![\w#&])#([\w-]+)/g, (_match, tag: string) => {
+      addTag(tag);
+      return "";
+    });
+
+  let result = "";
+  let index = 0;
+
+  while (index < text.length) {
+    const linkStart = text.indexOf("[[", index);
+    if (linkStart === -1) {
+      result += convertSegment(text.slice(index));
+      break;
+    }
+
+    const isTagLink = linkStart > 0 && text[linkStart - 1] === "#";
+    const segmentEnd = isTagLink ? linkStart - 1 : linkStart;
+    if (segmentEnd > index) {
+      result += convertSegment(text.slice(index, segmentEnd));
+    }
+
+    const linkEnd = text.indexOf("]]", linkStart + 2);
+    if (linkEnd === -1) {
+      result += convertSegment(text.slice(segmentEnd));
+      break;
+    }
+
+    if (isTagLink) {
+      addTag(text.slice(linkStart + 2, linkEnd));
+    } else {
+      result += text.slice(linkStart, linkEnd + 2);
+    }
+    index = linkEnd + 2;
+  }
+
+  return { text: safeText(result), tags };
+}
+
+/**
+ * Maps a Logseq tag back to an existing Todoist label name, falling back to the tag itself.
+ *
+ * @param tag Tag text without the leading `#`.
+ * @param labels Known Todoist labels.
+ */
+export function matchLabelName(tag: string, labels: TodoistLabel[]) {
+  const normalizedTag = formatLabelTag(tag).toLowerCase();
+  const match = labels.find(
+    (label) =>
+      label.name.toLowerCase() === tag.toLowerCase() ||
+      formatLabelTag(label.name).toLowerCase() === normalizedTag
+  );
+  return match ? match.name : tag;
+}
+
+/**
+ * Extracts a project name from a `todoist-project::` value (`#Name`, `[[Name]]`, or plain text).
+ *
+ * @param value Raw property value.
+ */
+export function parseProjectReference(value: string) {
+  return safeText(value)
+    .replace(/^#/, "")
+    .replace(/^\[\[(.*)\]\]$/, "$1")
+    .trim();
+}
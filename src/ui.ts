@@ -1,10 +1,47 @@
 import {
+  DIALOG_CLASS,
+  EXPORT_SNAPSHOT_COMMAND_KEY,
+  FULL_SYNC_COMMAND_KEY,
+  PREVIEW_COMMAND_KEY,
+  PREVIEW_DIALOG_KEY,
+  RESTORE_COMMAND_KEY,
+  RESTORE_DIALOG_KEY,
   TOOLBAR_BUTTON_CLASS,
   TOOLBAR_ICON_CLASS,
   TOOLBAR_ICON_IMG_CLASS,
   TOOLBAR_KEY,
 } from "./constants";
 
+export type CommandHandlers = {
+  onSync: () => Promise<void>;
+  onFullSync: () => Promise<void>;
+  onPreview: () => Promise<void>;
+  onExport: () => Promise<void>;
+  onRestore: () => Promise<void>;
+};
+
+export type RestoreDialogItem = {
+  id: string;
+  title: string;
+  projectName?: string;
+  due?: string;
+  completed: boolean;
+  selected: boolean;
+};
+
+export type PreviewDialogPage = {
+  pageName: string;
+  /**
+   * Change counts of the page, e.g. `2 create · 1 update`.
+   */
+  summary: string;
+  items: Array<{ action: string; title: string }>;
+  /**
+   * Changes left out of `items` to keep the dialog short.
+   */
+  hidden: number;
+};
+
 /**
  * Registers toolbar styles used by the plugin UI components.
  */
@@ -36,15 +73,60 @@ export function provideStyles() {
       height: 1.25rem;
       object-fit: contain;
     }
+
+    .${DIALOG_CLASS} {
+      display: flex;
+      flex-direction: column;
+      gap: 0.75rem;
+      padding: 1rem;
+      max-height: 70vh;
+      background: var(--ls-primary-background-color);
+      color: var(--ls-primary-text-color);
+      border: 1px solid var(--ls-border-color);
+      border-radius: 0.5rem;
+      box-shadow: 0 8px 24px rgba(0, 0, 0, 0.2);
+    }
+
+    .${DIALOG_CLASS} ul {
+      margin: 0;
+      padding: 0;
+      list-style: none;
+      overflow-y: auto;
+    }
+
+    .${DIALOG_CLASS} li {
+      display: flex;
+      gap: 0.5rem;
+      padding: 0.25rem 0;
+      cursor: pointer;
+    }
+
+    .${DIALOG_CLASS} .dialog-readonly li {
+      cursor: default;
+    }
+
+    .${DIALOG_CLASS} .dialog-page {
+      padding-top: 0.5rem;
+    }
+
+    .${DIALOG_CLASS} .dialog-meta {
+      opacity: 0.6;
+    }
+
+    .${DIALOG_CLASS} .dialog-actions {
+      display: flex;
+      justify-content: flex-end;
+      gap: 0.5rem;
+    }
   `);
 }
 
 /**
- * Registers the command palette entry responsible for manual syncs.
+ * Registers the command palette entries for syncing, previewing, exporting, and restoring.
  *
- * @param onSync Handler executed when the command palette item is invoked.
+ * @param handlers Handlers executed when each command is invoked.
  */
-export function registerCommands(onSync: () => Promise<void>) {
+export function registerCommands({ onSync, onFullSync, onPreview, onExport, onRestore }: CommandHandlers) {
   logseq.App.registerCommandPalette(
     {
       key: TOOLBAR_KEY,
@@ -52,21 +134,76 @@ export function registerCommands(onSync: () => Promise<void>) {
     },
     onSync
   );
+  logseq.App.registerCommandPalette(
+    {
+      key: FULL_SYNC_COMMAND_KEY,
+      label: "Todoist: Full sync",
+    },
+    onFullSync
+  );
+  logseq.App.registerCommandPalette(
+    {
+      key: PREVIEW_COMMAND_KEY,
+      label: "Todoist: Preview sync",
+    },
+    onPreview
+  );
+  logseq.App.registerCommandPalette(
+    {
+      key: EXPORT_SNAPSHOT_COMMAND_KEY,
+      label: "Todoist: Export snapshot",
+    },
+    onExport
+  );
+  logseq.App.registerCommandPalette(
+    {
+      key: RESTORE_COMMAND_KEY,
+      label: "Todoist: Restore from backup",
+    },
+    onRestore
+  );
 }
 
 /**
- * Registers the toolbar button that triggers the Todoist sync.
+ * Registers the slash command and block context menu item that send a block to Todoist.
+ *
+ * @param onSend Handler receiving the uuid of the block to send.
+ */
+export function registerBlockCommands(onSend: (uuid: string) => Promise<void>) {
+  logseq.Editor.registerSlashCommand("Todoist: Send block as task", async ({ uuid }) => {
+    await logseq.Editor.exitEditingMode();
+    await onSend(uuid);
+  });
+  logseq.Editor.registerBlockContextMenuItem("Todoist: Send block as task", async ({ uuid }) => {
+    await onSend(uuid);
+  });
+}
+
+/**
+ * Registers the toolbar button that triggers the Todoist sync. Registering again with
+ * the same key replaces the button, which is how the tooltip is refreshed.
  *
  * @param iconUrl Absolute URL to the toolbar icon resource.
+ * @param nextRun Next automatic sync, shown in the tooltip when scheduled.
  */
-export function registerToolbar(iconUrl: string) {
+export function registerToolbar(iconUrl: string, nextRun?: Date) {
+  const nextRunText = nextRun
+    ? nextRun.toLocaleString(undefined, {
+        weekday: "short",
+        month: "short",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+      })
+    : "";
+  const title = nextRunText ? `Todoist: Sync backup (next auto sync: ${nextRunText})` : "Todoist: Sync backup";
   logseq.App.registerUIItem("toolbar", {
     key: TOOLBAR_KEY,
     template: `
       <a
         class="button ${TOOLBAR_BUTTON_CLASS}"
         data-on-click="syncTodoistBackup"
-        title="Todoist: Sync backup"
+        title="${escapeHtml(title)}"
       >
         <span class="${TOOLBAR_ICON_CLASS}" aria-hidden="true">
           <img src="${iconUrl}" class="${TOOLBAR_ICON_IMG_CLASS}" alt="Todoist backup" />
@@ -75,3 +212,130 @@ export function registerToolbar(iconUrl: string) {
     `,
   });
 }
+
+/**
+ * Shows the dialog listing backed-up tasks missing from Todoist, each toggled by clicking it.
+ * Clicks are routed to the `toggleRestoreTask`, `toggleAllRestoreTasks`, `confirmRestore`,
+ * and `cancelRestore` model handlers.
+ *
+ * @param items Tasks offered for restore with their selection state.
+ */
+export function showRestoreDialog(items: RestoreDialogItem[]) {
+  const selectedCount = items.filter((item) => item.selected).length;
+  const rows = items
+    .map((item) => {
+      const meta = [item.projectName ?? "Inbox", item.due, item.completed ? "completed" : ""]
+        .filter(Boolean)
+        .join(" · ");
+      return `
+        <li data-on-click="toggleRestoreTask" data-task-id="${escapeHtml(item.id)}">
+          <span>${item.selected ? "☑" : "☐"}</span>
+          <span>${escapeHtml(item.title)} <span class="dialog-meta">${escapeHtml(meta)}</span></span>
+        </li>`;
+    })
+    .join("");
+
+  logseq.provideUI({
+    key: RESTORE_DIALOG_KEY,
+    reset: true,
+    style: {
+      position: "fixed",
+      top: "15vh",
+      left: "50%",
+      transform: "translateX(-50%)",
+      width: "min(40rem, 90vw)",
+      zIndex: 999,
+    },
+    template: `
+      <div class="${DIALOG_CLASS}">
+        <strong>Restore ${items.length} task(s) missing from Todoist</strong>
+        <ul>${rows}</ul>
+        <div class="dialog-actions">
+          <button class="button" data-on-click="toggleAllRestoreTasks">Select all / none</button>
+          <button class="button" data-on-click="cancelRestore">Cancel</button>
+          <button class="button" data-on-click="confirmRestore">Restore ${selectedCount}</button>
+        </div>
+      </div>
+    `,
+  });
+}
+
+/**
+ * Removes the restore dialog.
+ */
+export function closeRestoreDialog() {
+  logseq.provideUI({ key: RESTORE_DIALOG_KEY, template: null });
+}
+
+/**
+ * Shows the changes a sync would make, grouped by page, with buttons routed to the
+ * `confirmSyncPreview` and `cancelSyncPreview` model handlers.
+ *
+ * @param summary Totals shown above the list.
+ * @param pages Changes of each page.
+ * @param notice Warning shown above the totals, e.g. when the plan had to be recomputed.
+ */
+export function showPreviewDialog(summary: string, pages: PreviewDialogPage[], notice?: string) {
+  const rows = pages
+    .map((page) => {
+      const items = page.items
+        .map(
+          (item) => `
+        <li>
+          <span class="dialog-meta">${escapeHtml(item.action)}</span>
+          <span>${escapeHtml(item.title)}</span>
+        </li>`
+        )
+        .join("");
+      const more = page.hidden > 0 ? `<li class="dialog-meta">and ${page.hidden} more</li>` : "";
+      return `
+        <li class="dialog-page">
+          <strong>${escapeHtml(page.pageName)}</strong>
+          <span class="dialog-meta">${escapeHtml(page.summary)}</span>
+        </li>${items}${more}`;
+    })
+    .join("");
+
+  logseq.provideUI({
+    key: PREVIEW_DIALOG_KEY,
+    reset: true,
+    style: {
+      position: "fixed",
+      top: "15vh",
+      left: "50%",
+      transform: "translateX(-50%)",
+      width: "min(40rem, 90vw)",
+      zIndex: 999,
+    },
+    template: `
+      <div class="${DIALOG_CLASS}">
+        <strong>Todoist sync preview</strong>
+        ${notice ? `<span>${escapeHtml(notice)}</span>` : ""}
+        <span>${escapeHtml(summary)}</span>
+        <ul class="dialog-readonly">${rows}</ul>
+        <div class="dialog-actions">
+          <button class="button" data-on-click="cancelSyncPreview">Cancel</button>
+          <button class="button" data-on-click="confirmSyncPreview">Apply</button>
+        </div>
+      </div>
+    `,
+  });
+}
+
+/**
+ * Removes the sync preview dialog.
+ */
+export function closePreviewDialog() {
+  logseq.provideUI({ key: PREVIEW_DIALOG_KEY, template: null });
+}
+
+/**
+ * Escapes text interpolated into UI templates.
+ */
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
@@ -0,0 +1,126 @@
+/**
+ * Opt-in write-back that completes or reopens Todoist tasks edited in Logseq.
+ */
+
+import type { BlockEntity } from "@logseq/libs/dist/LSPlugin";
+
+import { extractTodoistAccount, extractTodoistId, resolveBlockTaskState } from "./blocks";
+import { logDebug, logError, logInfo, logWarn } from "./logger";
+import { readSettings } from "./settings";
+import { readTaskSnapshots, TaskSnapshot, writeTaskSnapshots } from "./storage";
+import { fetchTask, safeText, TodoistBackupTask, updateTaskCompletion } from "./todoist";
+
+let pending: Promise<void> = Promise.resolve();
+
+/**
+ * Listens for block edits and pushes completion changes on synced blocks to Todoist.
+ *
+ * @param isSyncing Reports whether a sync is rewriting blocks, whose edits must be ignored.
+ */
+export function registerWriteBack(isSyncing: () => boolean) {
+  return logseq.DB.onChanged(({ blocks }) => {
+    if (isSyncing() || !readSettings().writeBack) {
+      return;
+    }
+
+    for (const block of blocks ?? []) {
+      if (!block?.content || !extractTodoistId(block.content)) {
+        continue;
+      }
+      pending = pending.then(() => applyBlockChange(block)).catch((error) => {
+        logError("failed to write task change back to Todoist", error);
+      });
+    }
+  });
+}
+
+/**
+ * Compares the state expressed on a block with the last synced state and
+ * closes or reopens the Todoist task when they differ. The block's
+ * `todoist-account::` tag selects the account the task belongs to.
+ *
+ * @param block Changed block carrying a `todoist-id::` property.
+ */
+async function applyBlockChange(block: BlockEntity) {
+  const { accounts, writeBack, statusAliases } = readSettings();
+  const content = block.content ?? "";
+  const accountName = extractTodoistAccount(content);
+  const token = accounts.find((account) => account.name === accountName)?.token;
+  if (!token || !writeBack) {
+    return;
+  }
+
+  const taskId = extractTodoistId(content);
+  const desired = resolveBlockTaskState(block, statusAliases);
+  if (!taskId || !desired) {
+    return;
+  }
+
+  const snapshots = await readTaskSnapshots(accountName);
+  const snapshot = snapshots.get(taskId);
+  if (!snapshot) {
+    logInfo("write-back skipped for task without synced snapshot", { taskId });
+    return;
+  }
+  if (snapshot.status === desired) {
+    return;
+  }
+
+  const title = safeText(content.split("\n")[0]) || taskId;
+  const remote = await fetchTask(token, taskId);
+  if (!remote) {
+    await logseq.UI.showMsg(`Todoist task "${title}" no longer exists.`, "warning");
+    return;
+  }
+
+  const remoteStatus = remote.checked ? "completed" : "active";
+  if (remoteStatus !== desired) {
+    const remoteUpdatedAt = remote.updated_at ?? undefined;
+    if (snapshot.updatedAt && remoteUpdatedAt && remoteUpdatedAt !== snapshot.updatedAt) {
+      logWarn("write-back conflict", { taskId, synced: snapshot.updatedAt, remote: remoteUpdatedAt });
+      await logseq.UI.showMsg(
+        `"${title}" changed in Todoist since the last sync. Sync the backup before ${desired === "completed" ? "completing" : "reopening"} it.`,
+        "warning"
+      );
+      return;
+    }
+
+    await updateTaskCompletion(token, taskId, desired === "completed" ? "close" : "reopen");
+    await logseq.UI.showMsg(
+      `Todoist task ${desired === "completed" ? "completed" : "reopened"}: ${title}`,
+      "success"
+    );
+  }
+
+  const refreshed = remoteStatus === desired ? remote : await fetchTask(token, taskId);
+  snapshots.set(taskId, { status: desired, updatedAt: refreshed?.updated_at ?? undefined });
+  await writeTaskSnapshots(snapshots, accountName);
+  logDebug("write_back_applied", { taskId, status: desired });
+}
+
+/**
+ * Records the synced status of tasks so later block edits can be compared against it.
+ *
+ * @param tasks Tasks written by the current sync.
+ * @param incremental Whether `tasks` only holds changes since the previous sync.
+ * @param deletedTaskIds Tasks removed upstream since the previous sync.
+ * @param account Account the tasks belong to; undefined for the default account.
+ */
+export async function recordTaskSnapshots(
+  tasks: TodoistBackupTask[],
+  incremental: boolean,
+  deletedTaskIds: string[],
+  account?: string
+) {
+  const snapshots = incremental ? await readTaskSnapshots(account) : new Map<string, TaskSnapshot>();
+  for (const id of deletedTaskIds) {
+    snapshots.delete(id);
+  }
+  for (const task of tasks) {
+    snapshots.set(String(task.id), {
+      status: task.completed ? "completed" : "active",
+      updatedAt: task.updated_at ?? undefined,
+    });
+  }
+  await writeTaskSnapshots(snapshots, account);
+}
@@ -0,0 +1,8 @@
+import { defineConfig } from "vitest/config";
+
+// Kept apart from vite.config.ts: the Logseq dev plugin refuses to run inside the test server
+export default defineConfig({
+  test: {
+    include: ["src/**/*.test.ts"],
+  },
+});